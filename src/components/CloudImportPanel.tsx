@@ -0,0 +1,142 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { planFromCloudInventory, readCloudInventory } from '@/lib/cloud-import';
+import { getCloudProviderProfile } from '@/lib/providers';
+import type { NetworkPlan } from '@/lib/subnet-utils';
+import { X, Upload, CloudDownload } from 'lucide-react';
+
+interface CloudImportPanelProps {
+  onImport: (plan: NetworkPlan) => void;
+  onClose: () => void;
+}
+
+const COMMAND_EXAMPLES = [
+  'aws ec2 describe-vpcs --vpc-ids vpc-… > vpcs.json',
+  'aws ec2 describe-subnets --filters Name=vpc-id,Values=vpc-… > subnets.json',
+  'az network vnet list > vnets.json',
+  'gcloud compute networks subnets list --format=json > subnets.json',
+];
+
+export function CloudImportPanel({ onImport, onClose }: CloudImportPanelProps) {
+  const [text, setText] = useState<string>('');
+  const [selectedNetworkId, setSelectedNetworkId] = useState<string>('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const inventory = useMemo(() => text.trim() ? readCloudInventory(text) : null, [text]);
+  const networks = inventory && 'inventory' in inventory ? inventory.inventory.networks : [];
+  const networkId = networks.some(network => network.id === selectedNetworkId) ? selectedNetworkId : networks[0]?.id;
+  const result = useMemo(
+    () => inventory && 'inventory' in inventory && networkId ? planFromCloudInventory(inventory.inventory, networkId) : null,
+    [inventory, networkId]
+  );
+
+  // Append every chosen file, so describe-vpcs and describe-subnets output can be loaded together
+  const loadFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const contents = await Promise.all(files.map(file => file.text()));
+    setText(previous => [previous.trim(), ...contents].filter(Boolean).join('\n'));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Import From Cloud</CardTitle>
+            <CardDescription>
+              Start from an existing VPC or virtual network. Paste the JSON output of the CLI commands below; nothing is sent to the cloud.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <pre className="bg-muted rounded-md p-3 text-xs font-mono overflow-auto">
+          {COMMAND_EXAMPLES.join('\n')}
+        </pre>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste one or more JSON outputs here, one after another"
+          className="font-mono text-xs min-h-32"
+        />
+        <Button onClick={() => fileInput.current?.click()} variant="outline" className="flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Choose JSON Files
+        </Button>
+        <input ref={fileInput} type="file" accept=".json,application/json" multiple className="hidden" onChange={loadFiles} />
+
+        {inventory && 'error' in inventory && <p className="text-sm text-destructive">{inventory.error}</p>}
+
+        {inventory && 'inventory' in inventory && (
+          <div className="space-y-3">
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium mb-2">
+                  {getCloudProviderProfile(inventory.inventory.provider).name} Network
+                </label>
+                <Select value={networkId} onValueChange={setSelectedNetworkId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {networks.map((network) => (
+                      <SelectItem key={network.id} value={network.id}>
+                        {network.name}{network.cidrBlocks.length > 0 ? ` (${network.cidrBlocks.join(', ')})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => result && 'plan' in result && onImport(result.plan)}
+                disabled={!result || 'error' in result}
+                className="flex items-center gap-2"
+              >
+                <CloudDownload className="h-4 w-4" />
+                Replace Plan
+              </Button>
+            </div>
+
+            {result && 'error' in result && <p className="text-sm text-destructive">{result.error}</p>}
+
+            {result && 'plan' in result && (
+              <div className="space-y-2 text-sm">
+                <div>
+                  Base network <span className="font-mono">{result.plan.baseNetwork}</span>
+                  {result.plan.secondaryBaseNetworks && <> with secondary ranges <span className="font-mono">{result.plan.secondaryBaseNetworks.join(', ')}</span></>}
+                  {result.plan.baseNetworkIpv6 && <> with IPv6 <span className="font-mono">{result.plan.baseNetworkIpv6}</span></>}
+                  {' • '}{result.plan.networkSegments.length} subnets, imported as locked network segments
+                </div>
+                {result.plan.networkSegments.length > 0 && (
+                  <div className="space-y-1">
+                    {result.plan.networkSegments.map((segment) => (
+                      <div key={segment.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md text-xs">
+                        <span className="font-medium">{segment.name}</span>
+                        <span className="text-muted-foreground">
+                          <span className="font-mono">{segment.cidr}</span>
+                          {segment.availabilityZone ? ` • ${segment.availabilityZone}` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {result.warnings.length > 0 && (
+                  <ul className="text-xs text-amber-700 space-y-1">
+                    {result.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getExporter, getExporters } from '@/lib/exporters';
+import { exportFilename, saveFile } from '@/lib/file-utils';
+import type { NetworkPlan } from '@/lib/subnet-utils';
+import { X, Download, Copy } from 'lucide-react';
+
+interface ExportPanelProps {
+  plan: NetworkPlan;
+  onClose: () => void;
+}
+
+export function ExportPanel({ plan, onClose }: ExportPanelProps) {
+  const exporters = getExporters();
+  const [exporterId, setExporterId] = useState<string>(exporters[0].id);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const exporter = getExporter(exporterId) ?? exporters[0];
+  const content = useMemo(() => exporter.generate(plan), [exporter, plan]);
+
+  const download = () => {
+    saveFile(content, exportFilename(exporter.filePrefix, exporter.extension), {
+      mimeType: exporter.mimeType,
+      description: exporter.name,
+      extension: exporter.extension
+    });
+  };
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Export Preview</CardTitle>
+            <CardDescription>Review the generated file before downloading it</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2">Format</label>
+            <Select value={exporterId} onValueChange={setExporterId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exporters.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} ({option.extension})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={copyToClipboard} variant="outline" className="flex items-center gap-2">
+              <Copy className="h-4 w-4" />
+              {copied ? 'Copied!' : 'Copy'}
+            </Button>
+            <Button onClick={download} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Download {exporter.extension}
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{exporter.description}</p>
+        <pre className="bg-muted rounded-md p-4 text-xs font-mono overflow-auto max-h-96 whitespace-pre">
+          {content}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { hostReservationUtilization, nextFreeHostAddress, validateHostReservations } from '@/lib/host-reservations';
+import { DEFAULT_LEASE_TIME, defaultDhcpPool, validateDhcpSettings } from '@/lib/dhcp-export';
+import { createHostReservationId, getIpVersion } from '@/lib/subnet-utils';
+import type { DhcpSettings, HostReservation, NetworkSegmentPlan } from '@/lib/subnet-utils';
+import { X, Plus } from 'lucide-react';
+
+interface HostReservationPanelProps {
+  segment: NetworkSegmentPlan;
+  onChange: (label: string, reservations: HostReservation[]) => void;
+  onDhcpChange: (label: string, dhcp: DhcpSettings | undefined) => void;
+}
+
+// Share of a segment's usable addresses taken by host reservations
+export function HostUtilizationMeter({ segment }: { segment: NetworkSegmentPlan }) {
+  const { reserved, usable } = hostReservationUtilization(segment);
+  const percent = usable > 0 ? (reserved / usable) * 100 : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>IP Utilization</span>
+        <span>
+          {reserved.toLocaleString()} of {usable.toLocaleString()} usable addresses reserved ({percent < 1 && reserved > 0 ? '<1' : Math.round(percent)}%)
+        </span>
+      </div>
+      <div className="h-2 rounded bg-muted overflow-hidden">
+        <div
+          className={`h-full ${percent >= 90 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-primary'}`}
+          style={{ width: `${Math.min(percent, 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Static IPs handed out inside a network segment (load balancers, NAT gateways, DNS resolvers, ...)
+export function HostReservationPanel({ segment, onChange, onDhcpChange }: HostReservationPanelProps) {
+  const reservations = segment.hostReservations ?? [];
+  const nextFree = nextFreeHostAddress(segment);
+  const errors = [...validateHostReservations(segment), ...validateDhcpSettings(segment)];
+  const dhcp = segment.dhcp ?? {};
+  const defaultPool = defaultDhcpPool(segment);
+
+  // Change one DHCP setting; settings left empty fall back to their defaults
+  const updateDhcp = <K extends keyof DhcpSettings>(field: K, value: DhcpSettings[K]) => {
+    const next = { ...dhcp, [field]: value };
+    onDhcpChange(
+      `Changed DHCP settings of "${segment.name}"`,
+      Object.values(next).some(setting => setting !== undefined) ? next : undefined
+    );
+  };
+
+  // Change one field of a reservation
+  const updateReservation = (id: string, field: keyof Omit<HostReservation, 'id'>, value: string) => {
+    onChange(
+      `Changed host reservation in "${segment.name}"`,
+      reservations.map(reservation => reservation.id === id
+        ? { ...reservation, [field]: field === 'mac' || field === 'notes' ? value || undefined : value }
+        : reservation)
+    );
+  };
+
+  const addReservation = (address: string) => {
+    onChange(
+      address ? `Reserved ${address} in "${segment.name}"` : `Added a host reservation to "${segment.name}"`,
+      [...reservations, { id: createHostReservationId(), address, name: '' }]
+    );
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <HostUtilizationMeter segment={segment} />
+
+      {reservations.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1.2fr_1fr_1fr_1.5fr_auto] gap-2 text-xs text-muted-foreground">
+            <span>IP or Range</span>
+            <span>Name</span>
+            <span>MAC Address</span>
+            <span>Notes</span>
+            <span className="w-8" />
+          </div>
+          {reservations.map((reservation) => (
+            <div key={reservation.id} className="grid grid-cols-[1.2fr_1fr_1fr_1.5fr_auto] gap-2 items-center">
+              <Input
+                value={reservation.address}
+                onChange={(e) => updateReservation(reservation.id, 'address', e.target.value.trim())}
+                placeholder={segment.firstHost}
+                className="font-mono h-8 text-xs"
+              />
+              <Input
+                value={reservation.name}
+                onChange={(e) => updateReservation(reservation.id, 'name', e.target.value)}
+                placeholder="nat-gateway-a"
+                className="h-8 text-xs"
+              />
+              <Input
+                value={reservation.mac ?? ''}
+                onChange={(e) => updateReservation(reservation.id, 'mac', e.target.value.trim())}
+                placeholder="02:42:ac:11:00:02"
+                className="font-mono h-8 text-xs"
+              />
+              <Input
+                value={reservation.notes ?? ''}
+                onChange={(e) => updateReservation(reservation.id, 'notes', e.target.value)}
+                placeholder="Notes"
+                className="h-8 text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(
+                  `Removed host reservation ${reservation.address || '(empty)'} from "${segment.name}"`,
+                  reservations.filter(candidate => candidate.id !== reservation.id)
+                )}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {getIpVersion(segment.cidr) === 4 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium">DHCP</div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Pool Start</label>
+              <Input
+                value={dhcp.poolStart ?? ''}
+                onChange={(e) => updateDhcp('poolStart', e.target.value.trim() || undefined)}
+                placeholder={defaultPool?.start ?? 'No free addresses'}
+                className="font-mono h-8 text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Pool End</label>
+              <Input
+                value={dhcp.poolEnd ?? ''}
+                onChange={(e) => updateDhcp('poolEnd', e.target.value.trim() || undefined)}
+                placeholder={defaultPool?.end ?? 'No free addresses'}
+                className="font-mono h-8 text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Gateway</label>
+              <Input
+                value={dhcp.gateway ?? ''}
+                onChange={(e) => updateDhcp('gateway', e.target.value.trim() || undefined)}
+                placeholder={segment.firstHost}
+                className="font-mono h-8 text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">DNS Servers</label>
+              {/* Committed on blur so a trailing comma survives while typing */}
+              <Input
+                key={(dhcp.dnsServers ?? []).join(',')}
+                defaultValue={(dhcp.dnsServers ?? []).join(', ')}
+                onBlur={(e) => {
+                  const servers = e.target.value.split(',').map(server => server.trim()).filter(Boolean);
+                  if (servers.join(',') !== (dhcp.dnsServers ?? []).join(',')) {
+                    updateDhcp('dnsServers', servers.length > 0 ? servers : undefined);
+                  }
+                }}
+                placeholder="10.0.0.2, 1.1.1.1"
+                className="font-mono h-8 text-xs"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Lease Time (s)</label>
+              <Input
+                type="number"
+                min={1}
+                value={dhcp.leaseTime ?? ''}
+                onChange={(e) => updateDhcp('leaseTime', e.target.value === '' ? undefined : Number(e.target.value))}
+                placeholder={DEFAULT_LEASE_TIME.toString()}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="text-destructive space-y-1">
+          {errors.map((error, index) => (
+            <div key={index} className="text-xs">• {error}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => nextFree && addReservation(nextFree)}
+          disabled={!nextFree}
+          className="flex items-center gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          {nextFree ? `Reserve Next Free IP (${nextFree})` : 'No Free IPs'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => addReservation('')} className="flex items-center gap-1">
+          <Plus className="h-3 w-3" />
+          Add Reservation
+        </Button>
+      </div>
+    </div>
+  );
+}
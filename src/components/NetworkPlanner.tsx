@@ -1,100 +1,418 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   calculateNetworkSegment, 
   isValidCidr, 
   findNextAvailableNetworkSegment, 
+  assignIpv6Blocks,
+  applyAddressReservation,
   networkSegmentsOverlap,
-  networkSegmentFitsInBase,
-  COMMON_NETWORK_SEGMENT_SIZES 
+  getIpVersion,
+  getDefaultNetworkSegmentSize,
+  createNetworkSegmentFromCidr,
+  validateNetworkSegmentPlacement,
+  validateNetworkSegmentHierarchy,
+  childNetworkSegments,
+  descendantNetworkSegmentIds,
+  leafNetworkSegments,
+  networkSegmentTree,
+  relocateNetworkSegment,
+  validateBaseNetworks,
+  validateReservedRanges,
+  createReservedRangeId,
+  createNetworkSegmentGroupId,
+  DUAL_STACK_IPV6_SEGMENT_SIZE
 } from '@/lib/subnet-utils';
-import type { NetworkSegmentPlan, BaseNetwork } from '@/lib/subnet-utils';
+import type { NetworkSegmentPlan, BaseNetwork, IpVersion, NetworkPlan, ReservedRange, NetworkSegmentGroup, HostReservation, DhcpSettings } from '@/lib/subnet-utils';
+import { validateHostReservations } from '@/lib/host-reservations';
+import { validateDhcpSettings } from '@/lib/dhcp-export';
+import { DEFAULT_DNS_DOMAIN, describeReverseZones, validateDnsDomain } from '@/lib/dns-export';
+import {
+  pruneNetworkSegmentGroups,
+  removeNetworkSegmentGroup,
+  setNetworkSegmentGroupZoneCount,
+  validateNetworkSegmentGroups
+} from '@/lib/segment-groups';
+import {
+  CLOUD_PROVIDER_PROFILES,
+  DEFAULT_CLOUD_PROVIDER,
+  getCloudProviderProfile,
+  getProviderNetworkSegmentSizes,
+  providerSizeForHostCount,
+  validateNewNetworkSegmentPrefix,
+  validateProviderConstraints
+} from '@/lib/providers';
+import type { CloudProviderId, CloudProviderProfile } from '@/lib/providers';
+import {
+  DEFAULT_PLAN,
+  createCustomTemplate,
+  createPlanSnapshot,
+  createWorkspacePlan,
+  deleteCustomTemplate,
+  deleteWorkspacePlan,
+  loadWorkspace,
+  saveActivePlanId,
+  saveCustomTemplate,
+  saveRegistrySupernet,
+  saveWorkspacePlan,
+  uniquePlanName
+} from '@/lib/workspace';
+import type { CustomTemplate, PlanSnapshot, WorkspacePlan } from '@/lib/workspace';
+import { EMPTY_HISTORY, recordChange, redoChange, undoChange } from '@/lib/plan-history';
+import type { PlanHistory } from '@/lib/plan-history';
+import { clearShareLink, createShareLink, hasSharedPlan, readShareLink } from '@/lib/share-link';
+import { getExporter } from '@/lib/exporters';
+import { parsePlanFile } from '@/lib/plan-schema';
+import { exportFilename, saveFile } from '@/lib/file-utils';
+import { optimizeNetworkSegmentLayout } from '@/lib/layout-optimizer';
+import { DEFAULT_REGISTRY_SUPERNET } from '@/lib/address-registry';
+import type { LayoutOptimization } from '@/lib/layout-optimizer';
 import { NetworkVisualization } from './NetworkVisualization';
+import { NetworkSegmentSizingFields } from './NetworkSegmentSizingFields';
+import { ExportPanel } from './ExportPanel';
+import { SharedPlanView } from './SharedPlanView';
+import { WorkspaceSidebar } from './WorkspaceSidebar';
+import { SnapshotPanel } from './SnapshotPanel';
+import { SegmentImportPanel } from './SegmentImportPanel';
+import { CloudImportPanel } from './CloudImportPanel';
+import { RegistryPanel } from './RegistryPanel';
+import { ZoneGroupPanel } from './ZoneGroupPanel';
+import { TemplateSidebar } from './TemplateSidebar';
+import { HostReservationPanel, HostUtilizationMeter } from './HostReservationPanel';
+import type { SizingMode } from './NetworkSegmentSizingFields';
 import { PRESET_TEMPLATES } from '@/lib/presets';
 import type { PresetTemplate } from '@/lib/presets';
-import { X, FolderOpen, Upload } from 'lucide-react';
+import { serializeTemplate, templateFromPlan } from '@/lib/templates';
+import { X, FolderOpen, Upload, Lock, Unlock, FileCode, Share2, Layers, Undo2, Redo2, History, FileSpreadsheet, CloudDownload, CornerDownRight, ArrowUp, ArrowDown, Plus, Network, Server } from 'lucide-react';
 
-// Local storage keys
+// Local storage keys used before plans moved to the workspace
 const STORAGE_KEYS = {
   BASE_NETWORK: 'ip-network-planner-base-network',
+  BASE_NETWORK_IPV6: 'ip-network-planner-base-network-ipv6',
+  PROVIDER: 'ip-network-planner-provider',
   NETWORK_SEGMENTS: 'ip-network-planner-network-segments',
 } as const;
 
-// Load data from local storage
-const loadFromStorage = () => {
+// Load the single plan earlier versions kept in local storage, if there is one. It is read as a
+// version 1 file, so it gets the same migrations and validation as an imported one.
+const loadFromStorage = (): NetworkPlan | null => {
   try {
-    const baseNetwork = localStorage.getItem(STORAGE_KEYS.BASE_NETWORK) || '10.0.0.0/16';
+    const baseNetwork = localStorage.getItem(STORAGE_KEYS.BASE_NETWORK);
+    if (baseNetwork === null) return null;
+
+    const baseNetworkIpv6 = localStorage.getItem(STORAGE_KEYS.BASE_NETWORK_IPV6) ?? undefined;
+    const provider = getCloudProviderProfile(localStorage.getItem(STORAGE_KEYS.PROVIDER) || undefined).id;
     const networkSegmentsJson = localStorage.getItem(STORAGE_KEYS.NETWORK_SEGMENTS);
     const networkSegments = networkSegmentsJson ? JSON.parse(networkSegmentsJson) : [];
-    return { baseNetwork, networkSegments };
+    const result = parsePlanFile(JSON.stringify({ schemaVersion: 1, baseNetwork, baseNetworkIpv6, provider, networkSegments }));
+    if ('errors' in result) {
+      console.error('Ignoring the plan in local storage:', result.errors);
+      return null;
+    }
+    return result.plan;
   } catch (error) {
     console.error('Error loading from local storage:', error);
-    return { baseNetwork: '10.0.0.0/16', networkSegments: [] };
+    return null;
   }
 };
 
-// Save data to local storage
-const saveToStorage = (baseNetwork: string, networkSegments: NetworkSegmentPlan[]) => {
-  try {
-    localStorage.setItem(STORAGE_KEYS.BASE_NETWORK, baseNetwork);
-    localStorage.setItem(STORAGE_KEYS.NETWORK_SEGMENTS, JSON.stringify(networkSegments));
-  } catch (error) {
-    console.error('Error saving to local storage:', error);
+// Select value for adding a top-level network segment (Radix Select items can't use an empty value)
+const BASE_NETWORK_PARENT = 'base-network';
+
+type SegmentSizing = { size: number; requestedHosts?: number; growthPercent?: number };
+
+// Resolve the prefix length requested by the add and edit forms
+const resolveSegmentSizing = (
+  mode: SizingMode,
+  size: number,
+  hostsInput: string,
+  growthInput: string,
+  version: IpVersion,
+  provider: CloudProviderProfile
+): SegmentSizing | { error: string } => {
+  if (mode !== 'hosts') {
+    return { size };
+  }
+
+  const requestedHosts = Number(hostsInput);
+  const growthPercent = growthInput.trim() === '' ? 0 : Number(growthInput);
+  if (!Number.isInteger(requestedHosts) || requestedHosts <= 0) {
+    return { error: 'Please enter the number of hosts the network segment needs' };
+  }
+  if (!Number.isFinite(growthPercent) || growthPercent < 0) {
+    return { error: 'Growth headroom must be a non-negative percentage' };
+  }
+
+  const hostSize = providerSizeForHostCount(provider, requestedHosts, growthPercent, version);
+  if (hostSize === null) {
+    return { error: `No ${provider.name} network segment size fits ${requestedHosts.toLocaleString()} hosts` };
+  }
+  return { size: hostSize, requestedHosts, growthPercent };
+};
+
+// Place a network segment from the add or edit form, at the next free block or at an explicit CIDR,
+// avoiding the reserved ranges. Child segments are placed within their parent, among their siblings;
+// top-level segments take the first base network range with room.
+const placeNetworkSegment = (
+  baseNetworks: string[],
+  reservedRanges: ReservedRange[],
+  existingSegments: NetworkSegmentPlan[],
+  mode: SizingMode,
+  sizing: SegmentSizing | { error: string },
+  cidrInput: string,
+  provider: CloudProviderProfile,
+  parent?: NetworkSegmentPlan
+): { placement: NetworkSegmentPlan } | { errors: string[] } => {
+  if (mode === 'cidr') {
+    const placementErrors = validateNetworkSegmentPlacement(cidrInput, baseNetworks, existingSegments, parent, reservedRanges);
+    if (placementErrors.length > 0) {
+      return { errors: placementErrors };
+    }
+    const placement = createNetworkSegmentFromCidr(cidrInput, existingSegments.length + 1);
+    const providerError = validateNewNetworkSegmentPrefix(provider, placement.size, getIpVersion(placement.cidr));
+    return providerError ? { errors: [providerError] } : { placement };
+  }
+
+  if ('error' in sizing) {
+    return { errors: [sizing.error] };
+  }
+
+  const providerError = validateNewNetworkSegmentPrefix(provider, sizing.size, getIpVersion(baseNetworks[0]));
+  if (providerError) {
+    return { errors: [providerError] };
+  }
+
+  const placement = findNextAvailableNetworkSegment(parent?.cidr ?? baseNetworks, existingSegments, sizing.size, reservedRanges);
+  if (!placement) {
+    return { errors: [parent ? `No available space for this network segment size in "${parent.name}"` : 'No available space for this network segment size'] };
+  }
+
+  // Check for overlaps
+  if (existingSegments.some(existing => networkSegmentsOverlap(placement, existing))) {
+    return { errors: ['This network segment overlaps with an existing one'] };
   }
+
+  return { placement };
 };
 
 export function NetworkPlanner() {
   const [baseNetwork, setBaseNetwork] = useState<string>('10.0.0.0/16');
+  const [secondaryBaseNetworks, setSecondaryBaseNetworks] = useState<string[]>([]); // In allocation preference order, after baseNetwork
+  const [reservedRanges, setReservedRanges] = useState<ReservedRange[]>([]);
+  const [baseNetworkIpv6, setBaseNetworkIpv6] = useState<string>('');
+  const [provider, setProvider] = useState<CloudProviderId>(DEFAULT_CLOUD_PROVIDER);
+  const [dnsDomain, setDnsDomain] = useState<string>(''); // Empty for the default forward zone
   const [baseNetworkInfo, setBaseNetworkInfo] = useState<BaseNetwork | null>(null);
   const [networkSegments, setNetworkSegments] = useState<NetworkSegmentPlan[]>([]);
+  const [networkSegmentGroups, setNetworkSegmentGroups] = useState<NetworkSegmentGroup[]>([]);
   const [newNetworkSegmentName, setNewNetworkSegmentName] = useState<string>('');
   const [newNetworkSegmentSize, setNewNetworkSegmentSize] = useState<number>(24);
   const [newNetworkSegmentDescription, setNewNetworkSegmentDescription] = useState<string>('');
+  const [newSizingMode, setNewSizingMode] = useState<SizingMode>('prefix');
+  const [newRequiredHosts, setNewRequiredHosts] = useState<string>('');
+  const [newGrowthPercent, setNewGrowthPercent] = useState<string>('');
+  const [newNetworkSegmentCidr, setNewNetworkSegmentCidr] = useState<string>('');
+  const [newAvailabilityZone, setNewAvailabilityZone] = useState<string>('');
+  const [newParentId, setNewParentId] = useState<string>(''); // Empty for a top-level network segment
   const [errors, setErrors] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [showSaved, setShowSaved] = useState<boolean>(false);
   const [showTemplates, setShowTemplates] = useState<boolean>(false);
   const [editingNetworkSegment, setEditingNetworkSegment] = useState<string | null>(null);
+  const [hostReservationSegmentId, setHostReservationSegmentId] = useState<string | null>(null); // Segment whose host reservations are open
   const [editNetworkSegmentName, setEditNetworkSegmentName] = useState<string>('');
   const [editNetworkSegmentDescription, setEditNetworkSegmentDescription] = useState<string>('');
   const [editNetworkSegmentSize, setEditNetworkSegmentSize] = useState<number>(24);
+  const [editSizingMode, setEditSizingMode] = useState<SizingMode>('prefix');
+  const [editRequiredHosts, setEditRequiredHosts] = useState<string>('');
+  const [editGrowthPercent, setEditGrowthPercent] = useState<string>('');
+  const [editNetworkSegmentCidr, setEditNetworkSegmentCidr] = useState<string>('');
+  const [editAvailabilityZone, setEditAvailabilityZone] = useState<string>('');
+  const [pendingOptimization, setPendingOptimization] = useState<LayoutOptimization | null>(null);
+  const [showExportPanel, setShowExportPanel] = useState<boolean>(false);
+  const [sharedPlan, setSharedPlan] = useState<NetworkPlan | null>(null);
+  const [shareLinkCopied, setShareLinkCopied] = useState<boolean>(false);
+  const [workspacePlans, setWorkspacePlans] = useState<WorkspacePlan[]>([]);
+  const [activePlanId, setActivePlanId] = useState<string | null>(null);
+  const [showWorkspace, setShowWorkspace] = useState<boolean>(false);
+  const [history, setHistory] = useState<PlanHistory>(EMPTY_HISTORY);
+  const [showSnapshots, setShowSnapshots] = useState<boolean>(false);
+  const [showSegmentImport, setShowSegmentImport] = useState<boolean>(false);
+  const [showCloudImport, setShowCloudImport] = useState<boolean>(false);
+  const [showRegistry, setShowRegistry] = useState<boolean>(false);
+  const [registrySupernet, setRegistrySupernet] = useState<string>(DEFAULT_REGISTRY_SUPERNET);
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplate[]>([]);
+
+  const baseVersion = isValidCidr(baseNetwork) ? getIpVersion(baseNetwork) : 4;
+  const baseNetworks = [baseNetwork, ...secondaryBaseNetworks];
+  const baseNetworkErrors = isValidCidr(baseNetwork)
+    ? [...validateBaseNetworks(baseNetworks), ...validateReservedRanges(baseNetworks, reservedRanges)]
+    : ['Please enter a valid base network CIDR'];
+  const providerProfile = getCloudProviderProfile(provider);
+  const networkSegmentSizes = getProviderNetworkSegmentSizes(providerProfile, baseVersion);
+  const isDualStack = baseVersion === 4 && baseNetworkIpv6 !== '';
+  const isValidIpv6Base = isValidCidr(baseNetworkIpv6) && getIpVersion(baseNetworkIpv6) === 6;
+  const segmentTree = networkSegmentTree(networkSegments);
+  const childCounts = new Map<string, number>();
+  for (const segment of networkSegments) {
+    if (segment.parentId) childCounts.set(segment.parentId, (childCounts.get(segment.parentId) ?? 0) + 1);
+  }
+  const newParent = networkSegments.find(segment => segment.id === newParentId);
+
+  const currentPlan = useMemo<NetworkPlan>(() => ({
+    baseNetwork,
+    secondaryBaseNetworks: secondaryBaseNetworks.length > 0 ? secondaryBaseNetworks : undefined,
+    baseNetworkIpv6: isDualStack ? baseNetworkIpv6 : undefined,
+    reservedRanges: reservedRanges.length > 0 ? reservedRanges : undefined,
+    provider,
+    dnsDomain: dnsDomain || undefined,
+    networkSegments,
+    networkSegmentGroups: networkSegmentGroups.length > 0 ? networkSegmentGroups : undefined
+  }), [baseNetwork, secondaryBaseNetworks, baseNetworkIpv6, isDualStack, reservedRanges, provider, dnsDomain, networkSegments, networkSegmentGroups]);
+
+  // Show a plan in the editor
+  const openPlan = (plan: NetworkPlan) => {
+    setBaseNetwork(plan.baseNetwork);
+    setSecondaryBaseNetworks(plan.secondaryBaseNetworks ?? []);
+    setBaseNetworkIpv6(plan.baseNetworkIpv6 || '');
+    setReservedRanges(plan.reservedRanges ?? []);
+    setProvider(getCloudProviderProfile(plan.provider).id);
+    setDnsDomain(plan.dnsDomain ?? '');
+    setNetworkSegments(plan.networkSegments);
+    setNetworkSegmentGroups(plan.networkSegmentGroups ?? []);
+    setNewParentId('');
+    setEditingNetworkSegment(null);
+    setShowExportPanel(false);
+    setErrors([]);
+  };
+
+  // Record a labeled change in the undo history; call before changing the plan
+  const recordHistory = (label: string) => {
+    setHistory(previous => recordChange(previous, label, currentPlan));
+  };
+
+  // Load the workspace on component mount, migrating the plan earlier versions kept in local storage
+  useEffect(() => {
+    const openWorkspace = async () => {
+      try {
+        const workspace = await loadWorkspace(loadFromStorage);
+        setWorkspacePlans(workspace.plans);
+        setActivePlanId(workspace.activePlanId);
+        setRegistrySupernet(workspace.registrySupernet ?? DEFAULT_REGISTRY_SUPERNET);
+        setCustomTemplates(workspace.customTemplates);
+        openPlan(workspace.plans.find(plan => plan.id === workspace.activePlanId)!.plan);
+      } catch (error) {
+        // Keep working on an unsaved plan when IndexedDB is unavailable (e.g., some private browsing modes)
+        console.error('Error loading workspace:', error);
+        const fallbackPlan = createWorkspacePlan('My Plan', loadFromStorage() ?? DEFAULT_PLAN);
+        setWorkspacePlans([fallbackPlan]);
+        setActivePlanId(fallbackPlan.id);
+        openPlan(fallbackPlan.plan);
+        setErrors(['The workspace could not be opened, so changes will not be saved']);
+      }
+      setIsLoading(false);
+    };
+
+    openWorkspace();
+  }, []);
 
-  // Load data from local storage on component mount
+  // Open plans shared through the URL fragment read-only, without touching the workspace
   useEffect(() => {
-    const { baseNetwork: savedBaseNetwork, networkSegments: savedNetworkSegments } = loadFromStorage();
-    setBaseNetwork(savedBaseNetwork);
-    setNetworkSegments(savedNetworkSegments);
-    setIsLoading(false);
+    const openShareLink = async () => {
+      if (!hasSharedPlan(window.location.hash)) return;
+
+      const result = await readShareLink(window.location.hash);
+      if ('error' in result) {
+        clearShareLink();
+        setErrors([result.error]);
+        return;
+      }
+      setSharedPlan(result.plan);
+    };
+
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
   }, []);
 
-  // Save data to local storage whenever baseNetwork or networkSegments change
+  // Reset the requested size when the base network switches IP version or provider
   useEffect(() => {
-    if (!isLoading) {
-      saveToStorage(baseNetwork, networkSegments);
-      setShowSaved(true);
-      setTimeout(() => setShowSaved(false), 2000);
+    setNewNetworkSegmentSize(getDefaultNetworkSegmentSize(baseVersion));
+  }, [baseVersion, provider]);
+
+  // Pair every network segment with an IPv6 block when the plan is dual-stack
+  useEffect(() => {
+    if (isLoading || baseVersion !== 4) return;
+    if (baseNetworkIpv6 && !isValidIpv6Base) return;
+
+    const assignedNetworkSegments = assignIpv6Blocks(baseNetworkIpv6, networkSegments);
+    if (assignedNetworkSegments !== networkSegments) {
+      setNetworkSegments(assignedNetworkSegments);
+    }
+  }, [baseNetworkIpv6, isValidIpv6Base, baseVersion, networkSegments, isLoading]);
+
+  // Recalculate usable hosts whenever the provider's reserved addresses change
+  useEffect(() => {
+    if (isLoading) return;
+
+    const reservedNetworkSegments = applyAddressReservation(networkSegments, version => getCloudProviderProfile(provider).reservation[version]);
+    if (reservedNetworkSegments !== networkSegments) {
+      setNetworkSegments(reservedNetworkSegments);
     }
-  }, [baseNetwork, networkSegments, isLoading]);
+  }, [provider, networkSegments, isLoading]);
+
+  // Each workspace plan has its own history
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+  }, [activePlanId]);
+
+  // Discard an optimization preview once the plan it was computed from changes
+  useEffect(() => {
+    setPendingOptimization(null);
+  }, [baseNetwork, secondaryBaseNetworks, reservedRanges, networkSegments]);
+
+  // Save the open plan to the workspace whenever it changes
+  useEffect(() => {
+    if (isLoading) return;
+
+    const activePlan = workspacePlans.find(plan => plan.id === activePlanId);
+    if (!activePlan || JSON.stringify(activePlan.plan) === JSON.stringify(currentPlan)) return;
+
+    const updatedPlan: WorkspacePlan = { ...activePlan, plan: currentPlan, updatedAt: new Date().toISOString() };
+    setWorkspacePlans(workspacePlans.map(plan => plan.id === updatedPlan.id ? updatedPlan : plan));
+    saveWorkspacePlan(updatedPlan)
+      .then(() => {
+        setShowSaved(true);
+        setTimeout(() => setShowSaved(false), 2000);
+      })
+      .catch(error => console.error('Error saving plan:', error));
+  }, [currentPlan, activePlanId, workspacePlans, isLoading]);
 
-  // Calculate base network information
+  // Calculate base network information, totaled across every base network range
   useEffect(() => {
-    if (isValidCidr(baseNetwork)) {
+    if (isValidCidr(baseNetwork) && secondaryBaseNetworks.every(isValidCidr)) {
       try {
         const [networkAddress, cidr] = baseNetwork.split('/');
         const info = calculateNetworkSegment(networkAddress, cidr);
-        const usedHosts = networkSegments.reduce((total, segment) => total + segment.totalHosts, 0);
+        const totalHosts = secondaryBaseNetworks.reduce((total, range) => {
+          const [rangeAddress, rangeCidr] = range.split('/');
+          return total + calculateNetworkSegment(rangeAddress, rangeCidr).totalHosts;
+        }, info.totalHosts);
+        const usedHosts = childNetworkSegments(networkSegments, undefined).reduce((total, segment) => total + segment.totalHosts, 0);
         
         setBaseNetworkInfo({
           networkAddress: info.networkAddress,
           cidr: baseNetwork,
           subnetMask: info.subnetMask,
-          totalHosts: info.totalHosts,
-          availableHosts: info.totalHosts - usedHosts,
+          totalHosts,
+          availableHosts: totalHosts - usedHosts,
           usedHosts,
+          secondaryCidrs: secondaryBaseNetworks,
+          ipv6Cidr: isDualStack && isValidIpv6Base ? baseNetworkIpv6 : undefined,
           networkSegments: [...networkSegments]
         });
       } catch (error) {
@@ -104,7 +422,90 @@ export function NetworkPlanner() {
     } else {
       setBaseNetworkInfo(null);
     }
-  }, [baseNetwork, networkSegments]);
+  }, [baseNetwork, secondaryBaseNetworks, baseNetworkIpv6, isDualStack, isValidIpv6Base, networkSegments]);
+
+  // Replace the base network ranges, in preference order; the first range is the primary base network
+  const updateBaseNetworks = (label: string, ranges: string[]) => {
+    recordHistory(label);
+    setBaseNetwork(ranges[0]);
+    setSecondaryBaseNetworks(ranges.slice(1));
+  };
+
+  // Replace the reserved ranges that allocation must avoid
+  const updateReservedRanges = (label: string, ranges: ReservedRange[]) => {
+    recordHistory(label);
+    setReservedRanges(ranges);
+  };
+
+  // Replicate a tier across availability zones as a zone group
+  const addNetworkSegmentGroup = (draft: Omit<NetworkSegmentGroup, 'id'>): boolean => {
+    if (!draft.name) {
+      setErrors(['Please enter a name for the zone group']);
+      return false;
+    }
+
+    if (baseNetworkErrors.length > 0) {
+      setErrors(baseNetworkErrors);
+      return false;
+    }
+
+    const prefixError = validateNewNetworkSegmentPrefix(providerProfile, draft.size, baseVersion);
+    if (prefixError) {
+      setErrors([prefixError]);
+      return false;
+    }
+
+    const group: NetworkSegmentGroup = { ...draft, id: createNetworkSegmentGroupId(), zoneCount: 0 };
+    const result = setNetworkSegmentGroupZoneCount(baseNetworks, networkSegments, group, draft.zoneCount, reservedRanges);
+    if ('error' in result) {
+      setErrors([result.error]);
+      return false;
+    }
+
+    recordHistory(`Added zone group "${group.name}"`);
+    setNetworkSegments(result.networkSegments);
+    setNetworkSegmentGroups([...networkSegmentGroups, result.group]);
+    setErrors([]);
+    return true;
+  };
+
+  // Add or remove zones of a zone group
+  const changeGroupZoneCount = (id: string, zoneCount: number) => {
+    const group = networkSegmentGroups.find(candidate => candidate.id === id);
+    if (!group) return;
+
+    const result = setNetworkSegmentGroupZoneCount(baseNetworks, networkSegments, group, zoneCount, reservedRanges);
+    if ('error' in result) {
+      setErrors([result.error]);
+      return;
+    }
+
+    recordHistory(`Changed zone group "${group.name}" to ${zoneCount} zone${zoneCount > 1 ? 's' : ''}`);
+    setNetworkSegments(result.networkSegments);
+    setNetworkSegmentGroups(networkSegmentGroups.map(candidate => candidate.id === id ? result.group : candidate));
+    setErrors([]);
+  };
+
+  // Remove a zone group with its network segments
+  const removeZoneGroup = (id: string) => {
+    const group = networkSegmentGroups.find(candidate => candidate.id === id);
+    if (!group) return;
+
+    recordHistory(`Removed zone group "${group.name}"`);
+    const remainingSegments = removeNetworkSegmentGroup(networkSegments, id);
+    setNetworkSegments(remainingSegments);
+    setNetworkSegmentGroups(networkSegmentGroups.filter(candidate => candidate.id !== id));
+    if (!remainingSegments.some(segment => segment.id === newParentId)) {
+      setNewParentId('');
+    }
+  };
+
+  // Swap a base network range with its neighbor in the allocation preference order
+  const moveBaseNetworkRange = (index: number, offset: -1 | 1) => {
+    const ranges = [...baseNetworks];
+    [ranges[index], ranges[index + offset]] = [ranges[index + offset], ranges[index]];
+    updateBaseNetworks(`Moved base network range ${baseNetworks[index]} ${offset < 0 ? 'up' : 'down'}`, ranges);
+  };
 
   const addNetworkSegment = () => {
     if (!newNetworkSegmentName.trim()) {
@@ -112,34 +513,79 @@ export function NetworkPlanner() {
       return;
     }
 
-    const newNetworkSegment = findNextAvailableNetworkSegment(baseNetwork, networkSegments, newNetworkSegmentSize);
-    
-    if (!newNetworkSegment) {
-      setErrors(['No available space for this network segment size']);
+    if (baseNetworkErrors.length > 0) {
+      setErrors(baseNetworkErrors);
       return;
     }
 
-    // Check for overlaps
-    const hasOverlap = networkSegments.some(existing => networkSegmentsOverlap(newNetworkSegment, existing));
-    if (hasOverlap) {
-      setErrors(['This network segment overlaps with an existing one']);
+    const siblings = childNetworkSegments(networkSegments, newParent?.id);
+    const sizing = resolveSegmentSizing(newSizingMode, newNetworkSegmentSize, newRequiredHosts, newGrowthPercent, baseVersion, providerProfile);
+    const result = placeNetworkSegment(baseNetworks, reservedRanges, siblings, newSizingMode, sizing, newNetworkSegmentCidr, providerProfile, newParent);
+    if ('errors' in result) {
+      setErrors(result.errors);
       return;
     }
 
     const networkSegmentWithDetails: NetworkSegmentPlan = {
-      ...newNetworkSegment,
+      ...result.placement,
+      parentId: newParent?.id,
       name: newNetworkSegmentName.trim(),
-      description: newNetworkSegmentDescription.trim() || undefined
+      description: newNetworkSegmentDescription.trim() || undefined,
+      availabilityZone: newAvailabilityZone.trim() || undefined,
+      requestedHosts: 'error' in sizing ? undefined : sizing.requestedHosts,
+      growthPercent: 'error' in sizing ? undefined : sizing.growthPercent
     };
 
+    recordHistory(`Added network segment "${networkSegmentWithDetails.name}"`);
     setNetworkSegments([...networkSegments, networkSegmentWithDetails]);
     setNewNetworkSegmentName('');
     setNewNetworkSegmentDescription('');
+    setNewRequiredHosts('');
+    setNewGrowthPercent('');
+    setNewNetworkSegmentCidr('');
+    setNewAvailabilityZone('');
     setErrors([]);
   };
 
   const removeNetworkSegment = (id: string) => {
-    setNetworkSegments(networkSegments.filter(segment => segment.id !== id));
+    const removedSegment = networkSegments.find(segment => segment.id === id);
+    if (!removedSegment) return;
+
+    // Child segments go with their parent
+    const descendants = descendantNetworkSegmentIds(networkSegments, id);
+    recordHistory(descendants.size > 0
+      ? `Removed network segment "${removedSegment.name}" and ${descendants.size} child segment${descendants.size > 1 ? 's' : ''}`
+      : `Removed network segment "${removedSegment.name}"`);
+    const remainingSegments = networkSegments.filter(segment => segment.id !== id && !descendants.has(segment.id));
+    setNetworkSegments(remainingSegments);
+    setNetworkSegmentGroups(pruneNetworkSegmentGroups(networkSegmentGroups, remainingSegments));
+    if (newParentId === id || descendants.has(newParentId)) {
+      setNewParentId('');
+    }
+  };
+
+  // Replace the host reservations of a network segment
+  const updateHostReservations = (id: string, label: string, reservations: HostReservation[]) => {
+    recordHistory(label);
+    setNetworkSegments(networkSegments.map(segment =>
+      segment.id === id ? { ...segment, hostReservations: reservations.length > 0 ? reservations : undefined } : segment
+    ));
+  };
+
+  // Replace the DHCP settings of a network segment
+  const updateDhcpSettings = (id: string, label: string, dhcp: DhcpSettings | undefined) => {
+    recordHistory(label);
+    setNetworkSegments(networkSegments.map(segment => segment.id === id ? { ...segment, dhcp } : segment));
+  };
+
+  const toggleNetworkSegmentLock = (id: string) => {
+    const toggledSegment = networkSegments.find(segment => segment.id === id);
+    if (!toggledSegment) return;
+
+    recordHistory(`${toggledSegment.locked ? 'Unlocked' : 'Locked'} network segment "${toggledSegment.name}"`);
+    setNetworkSegments(networkSegments.map(segment =>
+      segment.id === id ? { ...segment, locked: !segment.locked || undefined } : segment
+    ));
   };
 
   const startEditNetworkSegment = (networkSegment: NetworkSegmentPlan) => {
@@ -147,13 +593,23 @@ export function NetworkPlanner() {
     setEditNetworkSegmentName(networkSegment.name);
     setEditNetworkSegmentDescription(networkSegment.description || '');
     setEditNetworkSegmentSize(networkSegment.size);
+    setEditSizingMode(networkSegment.requestedHosts ? 'hosts' : 'prefix');
+    setEditRequiredHosts(networkSegment.requestedHosts?.toString() || '');
+    setEditGrowthPercent(networkSegment.growthPercent?.toString() || '');
+    setEditNetworkSegmentCidr(networkSegment.cidr);
+    setEditAvailabilityZone(networkSegment.availabilityZone || '');
   };
 
   const cancelEditNetworkSegment = () => {
     setEditingNetworkSegment(null);
     setEditNetworkSegmentName('');
     setEditNetworkSegmentDescription('');
-    setEditNetworkSegmentSize(24);
+    setEditNetworkSegmentSize(getDefaultNetworkSegmentSize(baseVersion));
+    setEditSizingMode('prefix');
+    setEditRequiredHosts('');
+    setEditGrowthPercent('');
+    setEditNetworkSegmentCidr('');
+    setEditAvailabilityZone('');
   };
 
   const saveEditNetworkSegment = () => {
@@ -162,37 +618,56 @@ export function NetworkPlanner() {
     const originalSegment = networkSegments.find(segment => segment.id === editingNetworkSegment);
     if (!originalSegment) return;
 
-    // If size changed, we need to recalculate the network segment
-    if (editNetworkSegmentSize !== originalSegment.size) {
-      const networkSegmentsWithoutOriginal = networkSegments.filter(segment => segment.id !== editingNetworkSegment);
-      const newNetworkSegment = findNextAvailableNetworkSegment(baseNetwork, networkSegmentsWithoutOriginal, editNetworkSegmentSize);
-      
-      if (!newNetworkSegment) {
-        setErrors(['No available space for this network segment size']);
+    const sizing = resolveSegmentSizing(editSizingMode, editNetworkSegmentSize, editRequiredHosts, editGrowthPercent, baseVersion, providerProfile);
+    if ('error' in sizing) {
+      setErrors([sizing.error]);
+      return;
+    }
+
+    const editedDetails = {
+      name: editNetworkSegmentName.trim(),
+      description: editNetworkSegmentDescription.trim() || undefined,
+      availabilityZone: editAvailabilityZone.trim() || undefined,
+      requestedHosts: sizing.requestedHosts,
+      growthPercent: sizing.growthPercent
+    };
+
+    // If size or explicit CIDR changed, we need to recalculate the network segment
+    const placementChanged = editSizingMode === 'cidr'
+      ? editNetworkSegmentCidr !== originalSegment.cidr
+      : sizing.size !== originalSegment.size;
+
+    if (placementChanged) {
+      if (baseNetworkErrors.length > 0) {
+        setErrors(baseNetworkErrors);
         return;
       }
 
-      // Check for overlaps
-      const hasOverlap = networkSegmentsWithoutOriginal.some(existing => networkSegmentsOverlap(newNetworkSegment, existing));
-      if (hasOverlap) {
-        setErrors(['This network segment overlaps with an existing one']);
+      const parent = networkSegments.find(segment => segment.id === originalSegment.parentId);
+      const siblings = childNetworkSegments(networkSegments, originalSegment.parentId).filter(segment => segment.id !== editingNetworkSegment);
+      const result = placeNetworkSegment(baseNetworks, reservedRanges, siblings, editSizingMode, sizing, editNetworkSegmentCidr, providerProfile, parent);
+      if ('errors' in result) {
+        setErrors(result.errors);
         return;
       }
 
-      const updatedNetworkSegment: NetworkSegmentPlan = {
-        ...newNetworkSegment,
-        name: editNetworkSegmentName.trim(),
-        description: editNetworkSegmentDescription.trim() || undefined
-      };
+      // Child segments move with their parent
+      const relocatedSegments = relocateNetworkSegment(networkSegments, originalSegment.id, result.placement);
+      if (!relocatedSegments) {
+        setErrors([`The child segments of "${originalSegment.name}" don't fit in ${result.placement.cidr}; shrink or remove them first`]);
+        return;
+      }
 
-      setNetworkSegments(networkSegments.map(segment => 
-        segment.id === editingNetworkSegment ? updatedNetworkSegment : segment
+      recordHistory(`Edited network segment "${originalSegment.name}"`);
+      setNetworkSegments(relocatedSegments.map(segment => 
+        segment.id === editingNetworkSegment ? { ...segment, ...editedDetails } : segment
       ));
     } else {
-      // Just update name and description
+      // Just update name, description and requested host count
+      recordHistory(`Edited network segment "${originalSegment.name}"`);
       setNetworkSegments(networkSegments.map(segment => 
         segment.id === editingNetworkSegment 
-          ? { ...segment, name: editNetworkSegmentName.trim(), description: editNetworkSegmentDescription.trim() || undefined }
+          ? { ...segment, ...editedDetails }
           : segment
       ));
     }
@@ -202,32 +677,37 @@ export function NetworkPlanner() {
   };
 
   const resetConfiguration = () => {
+    recordHistory('Reset plan');
     setBaseNetwork('10.0.0.0/16');
+    setSecondaryBaseNetworks([]);
+    setReservedRanges([]);
+    setBaseNetworkIpv6('');
+    setProvider(DEFAULT_CLOUD_PROVIDER);
+    setDnsDomain('');
     setNetworkSegments([]);
+    setNetworkSegmentGroups([]);
     setNewNetworkSegmentName('');
     setNewNetworkSegmentDescription('');
-    setNewNetworkSegmentSize(24);
+    setNewNetworkSegmentSize(getDefaultNetworkSegmentSize(4));
+    setNewSizingMode('prefix');
+    setNewRequiredHosts('');
+    setNewGrowthPercent('');
+    setNewNetworkSegmentCidr('');
     setErrors([]);
     setShowTemplates(false);
     setEditingNetworkSegment(null);
   };
 
-  const loadPreset = (preset: PresetTemplate) => {
-    setBaseNetwork(preset.baseNetwork);
-    const newNetworkSegments: NetworkSegmentPlan[] = [];
-    
-    for (const segmentConfig of preset.networkSegments) {
-      const newNetworkSegment = findNextAvailableNetworkSegment(preset.baseNetwork, newNetworkSegments, segmentConfig.size);
-      if (newNetworkSegment) {
-        newNetworkSegments.push({
-          ...newNetworkSegment,
-          name: segmentConfig.name,
-          description: segmentConfig.description
-        });
-      }
-    }
-    
-    setNetworkSegments(newNetworkSegments);
+  // Replace the plan's address layout with one built from a template, keeping the provider
+  const applyTemplate = (templateName: string, plan: NetworkPlan) => {
+    recordHistory(`Loaded template "${templateName}"`);
+    setBaseNetwork(plan.baseNetwork);
+    setSecondaryBaseNetworks([]);
+    setReservedRanges([]);
+    setNetworkSegments(plan.networkSegments);
+    setNetworkSegmentGroups(plan.networkSegmentGroups ?? []);
+    setNewParentId('');
+    setEditingNetworkSegment(null);
     setShowTemplates(false);
     setErrors([]);
   };
@@ -235,19 +715,41 @@ export function NetworkPlanner() {
   const validateNetworkSegments = () => {
     const newErrors: string[] = [];
 
-    // Check for overlaps
-    for (let i = 0; i < networkSegments.length; i++) {
-      for (let j = i + 1; j < networkSegments.length; j++) {
-        if (networkSegmentsOverlap(networkSegments[i], networkSegments[j])) {
-          newErrors.push(`Network segments "${networkSegments[i].name}" and "${networkSegments[j].name}" overlap`);
-        }
-      }
+    if (baseNetworkErrors.length > 0) {
+      setErrors(baseNetworkErrors);
+      return false;
+    }
+
+    // Check that network segments fit within their parent and don't overlap their siblings
+    newErrors.push(...validateNetworkSegmentHierarchy(baseNetworks, networkSegments, reservedRanges));
+
+    // Check that every zone group has one copy per zone
+    newErrors.push(...validateNetworkSegmentGroups(networkSegmentGroups, networkSegments));
+
+    // Check the forward zone the DNS exports use
+    const dnsDomainError = dnsDomain ? validateDnsDomain(dnsDomain) : null;
+    if (dnsDomainError) {
+      newErrors.push(dnsDomainError);
     }
 
-    // Check if all network segments fit within base network
+    // Check host reservations against each segment's usable range and each other, and DHCP pools against both
     for (const segment of networkSegments) {
-      if (!networkSegmentFitsInBase(segment, baseNetwork)) {
-        newErrors.push(`Network segment "${segment.name}" does not fit within the base network`);
+      newErrors.push(...validateHostReservations(segment), ...validateDhcpSettings(segment));
+    }
+
+    // Check network segment sizes against the provider's limits
+    newErrors.push(...validateProviderConstraints(providerProfile, networkSegments));
+
+    // Check that every network segment of a dual-stack plan has an IPv6 block
+    if (isDualStack) {
+      if (!isValidIpv6Base) {
+        newErrors.push('IPv6 base network must be a valid IPv6 CIDR (e.g., 2001:db8:1200::/56)');
+      } else {
+        for (const segment of leafNetworkSegments(networkSegments)) {
+          if (!segment.ipv6Cidr) {
+            newErrors.push(`Network segment "${segment.name}" has no IPv6 block: the IPv6 base network is full`);
+          }
+        }
       }
     }
 
@@ -256,39 +758,47 @@ export function NetworkPlanner() {
   };
 
   const optimizeLayout = () => {
-    console.log('Starting layout optimization...');
-    console.log('Original network segments:', networkSegments.map(s => `${s.name}: ${s.cidr} (${s.size})`));
-    
-    // Sort network segments by size (largest first) to minimize gaps
-    // Note: Smaller size number = larger network segment (e.g., /20 is larger than /24)
-    const sortedBySize = [...networkSegments].sort((a, b) => a.size - b.size);
-    console.log('Sorted by size:', sortedBySize.map(s => `${s.name}: ${s.cidr} (${s.size})`));
-    
-    const optimizedNetworkSegments: NetworkSegmentPlan[] = [];
-    
-    for (let i = 0; i < sortedBySize.length; i++) {
-      const segment = sortedBySize[i];
-      const newNetworkSegment = findNextAvailableNetworkSegment(baseNetwork, optimizedNetworkSegments, segment.size);
-      
-      if (newNetworkSegment) {
-        const optimizedNetworkSegment: NetworkSegmentPlan = {
-          ...newNetworkSegment,
-          id: segment.id, // Preserve the original ID
-          name: segment.name,
-          description: segment.description
-        };
-        optimizedNetworkSegments.push(optimizedNetworkSegment);
-        console.log(`Placed ${segment.name} at ${newNetworkSegment.cidr}`);
-      } else {
-        console.log(`Could not place ${segment.name}`);
-      }
+    if (baseNetworkErrors.length > 0) {
+      setErrors(baseNetworkErrors);
+      return;
+    }
+
+    // Optimization is all-or-nothing: keep the current plan if any segment can't be placed
+    const optimization = optimizeNetworkSegmentLayout(baseNetworks, networkSegments, reservedRanges);
+    if (optimization.failures.length > 0) {
+      setPendingOptimization(null);
+      setErrors([
+        'Layout was not optimized because not every network segment can be placed:',
+        ...optimization.failures.map(failure => `"${failure.name}" (${failure.cidr}): ${failure.reason}`)
+      ]);
+      return;
     }
-    
-    console.log('Optimized network segments:', optimizedNetworkSegments.map(s => `${s.name}: ${s.cidr}`));
-    setNetworkSegments(optimizedNetworkSegments);
+
+    // Show which network segments would move before applying
+    setPendingOptimization(optimization);
     setErrors([]);
   };
 
+  const applyOptimization = () => {
+    if (!pendingOptimization) return;
+    const movedCount = pendingOptimization.moves.length;
+    recordHistory(`Optimized layout (${movedCount} ${movedCount === 1 ? 'segment' : 'segments'} moved)`);
+    setNetworkSegments(pendingOptimization.networkSegments);
+    setPendingOptimization(null);
+  };
+
+  // Replace the plan with a validated configuration file, or report every problem in it
+  const applyImportedConfiguration = (content: string, fileName: string) => {
+    const result = parsePlanFile(content);
+    if ('errors' in result) {
+      setErrors([`${fileName} could not be imported:`, ...result.errors]);
+      return;
+    }
+
+    recordHistory('Imported configuration');
+    openPlan(result.plan);
+  };
+
   const importConfiguration = async () => {
     try {
       // Try to use File System Access API for file picker (modern browsers)
@@ -305,16 +815,7 @@ export function NetworkPlanner() {
           
           const file = await fileHandle.getFile();
           const content = await file.text();
-          const config = JSON.parse(content);
-          
-          // Validate the imported configuration
-          if (config.baseNetwork && Array.isArray(config.networkSegments)) {
-            setBaseNetwork(config.baseNetwork);
-            setNetworkSegments(config.networkSegments);
-            setErrors([]);
-          } else {
-            setErrors(['Invalid configuration file format']);
-          }
+          applyImportedConfiguration(content, file.name);
         } catch {
           // User cancelled or API failed
           return;
@@ -333,21 +834,8 @@ export function NetworkPlanner() {
           if (file) {
             const reader = new FileReader();
             reader.onload = (e) => {
-              try {
-                const content = e.target?.result as string;
-                const config = JSON.parse(content);
-                
-                // Validate the imported configuration
-                if (config.baseNetwork && Array.isArray(config.networkSegments)) {
-                  setBaseNetwork(config.baseNetwork);
-                  setNetworkSegments(config.networkSegments);
-                  setErrors([]);
-                } else {
-                  setErrors(['Invalid configuration file format']);
-                }
-                             } catch {
-                 setErrors(['Failed to parse configuration file']);
-               }
+              const content = e.target?.result as string;
+              applyImportedConfiguration(content, file.name);
             };
             reader.readAsText(file);
           }
@@ -362,10 +850,243 @@ export function NetworkPlanner() {
      }
   };
 
+  const exportConfiguration = async () => {
+    if (validateNetworkSegments()) {
+      // Export configuration as JSON file
+      const exporter = getExporter('json')!;
+      await saveFile(exporter.generate(currentPlan), exportFilename(exporter.filePrefix, exporter.extension), {
+        mimeType: exporter.mimeType,
+        description: 'JSON Configuration File',
+        extension: exporter.extension
+      });
+    }
+  };
+
+  // Add the network segments read from a CSV or spreadsheet paste
+  const importNetworkSegments = (importedSegments: NetworkSegmentPlan[]) => {
+    recordHistory(`Imported ${importedSegments.length} network segment${importedSegments.length === 1 ? '' : 's'} from CSV`);
+    setNetworkSegments([...networkSegments, ...importedSegments]);
+    setShowSegmentImport(false);
+    setErrors([]);
+  };
+
+  // Replace the plan with an existing cloud network, its subnets locked in place
+  const importCloudPlan = (plan: NetworkPlan) => {
+    recordHistory(`Imported ${plan.networkSegments.length} subnets from ${getCloudProviderProfile(plan.provider).name}`);
+    openPlan(plan);
+    setShowCloudImport(false);
+  };
+
+  const openExportPanel = () => {
+    if (validateNetworkSegments()) {
+      setShowExportPanel(true);
+    }
+  };
+
+  const copyShareLink = async () => {
+    if (baseNetworkErrors.length > 0) {
+      setErrors(baseNetworkErrors);
+      return;
+    }
+
+    const result = await createShareLink(currentPlan, window.location.href);
+    if ('error' in result) {
+      setErrors([result.error]);
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(result.url);
+      setShareLinkCopied(true);
+      setTimeout(() => setShareLinkCopied(false), 2000);
+      setErrors([]);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      setErrors(['Could not copy the share link to the clipboard']);
+    }
+  };
+
+  // Add a plan to the workspace and open it
+  const addWorkspacePlan = async (name: string, plan: NetworkPlan) => {
+    const workspacePlan = createWorkspacePlan(uniquePlanName(name, workspacePlans), plan);
+    try {
+      await saveWorkspacePlan(workspacePlan);
+      await saveActivePlanId(workspacePlan.id);
+    } catch (error) {
+      console.error('Error saving plan:', error);
+    }
+    setWorkspacePlans([...workspacePlans, workspacePlan]);
+    setActivePlanId(workspacePlan.id);
+    openPlan(workspacePlan.plan);
+  };
+
+  const selectWorkspacePlan = (id: string) => {
+    const workspacePlan = workspacePlans.find(plan => plan.id === id);
+    if (!workspacePlan || id === activePlanId) return;
+
+    setActivePlanId(id);
+    openPlan(workspacePlan.plan);
+    saveActivePlanId(id).catch(error => console.error('Error saving active plan:', error));
+  };
+
+  const renameWorkspacePlan = (id: string, name: string) => {
+    const workspacePlan = workspacePlans.find(plan => plan.id === id);
+    if (!workspacePlan || workspacePlan.name === name) return;
+
+    const renamedPlan = { ...workspacePlan, name: uniquePlanName(name, workspacePlans.filter(plan => plan.id !== id)) };
+    setWorkspacePlans(workspacePlans.map(plan => plan.id === id ? renamedPlan : plan));
+    saveWorkspacePlan(renamedPlan).catch(error => console.error('Error saving plan:', error));
+  };
+
+  // Mark a plan as an isolated environment whose addresses may overlap other plans
+  const toggleAllowOverlap = (id: string) => {
+    const workspacePlan = workspacePlans.find(plan => plan.id === id);
+    if (!workspacePlan) return;
+
+    const updatedPlan = { ...workspacePlan, allowOverlap: !workspacePlan.allowOverlap || undefined };
+    setWorkspacePlans(workspacePlans.map(plan => plan.id === id ? updatedPlan : plan));
+    saveWorkspacePlan(updatedPlan).catch(error => console.error('Error saving plan:', error));
+  };
+
+  const changeRegistrySupernet = (cidr: string) => {
+    setRegistrySupernet(cidr);
+    saveRegistrySupernet(cidr).catch(error => console.error('Error saving registry supernet:', error));
+  };
+
+  const duplicateWorkspacePlan = (id: string) => {
+    const workspacePlan = workspacePlans.find(plan => plan.id === id);
+    if (!workspacePlan) return;
+
+    const plan = id === activePlanId ? currentPlan : workspacePlan.plan;
+    addWorkspacePlan(`${workspacePlan.name} (Copy)`, structuredClone(plan));
+  };
+
+  const removeWorkspacePlan = async (id: string) => {
+    const workspacePlan = workspacePlans.find(plan => plan.id === id);
+    if (!workspacePlan || !window.confirm(`Delete the plan "${workspacePlan.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteWorkspacePlan(id);
+    } catch (error) {
+      console.error('Error deleting plan:', error);
+      setErrors([`Failed to delete the plan "${workspacePlan.name}"`]);
+      return;
+    }
+
+    const remainingPlans = workspacePlans.filter(plan => plan.id !== id);
+    if (remainingPlans.length === 0) {
+      // The workspace always holds at least one plan
+      const firstPlan = createWorkspacePlan('My Plan', DEFAULT_PLAN);
+      saveWorkspacePlan(firstPlan).catch(error => console.error('Error saving plan:', error));
+      remainingPlans.push(firstPlan);
+    }
+
+    setWorkspacePlans(remainingPlans);
+    if (id === activePlanId) {
+      setActivePlanId(remainingPlans[0].id);
+      openPlan(remainingPlans[0].plan);
+      saveActivePlanId(remainingPlans[0].id).catch(error => console.error('Error saving active plan:', error));
+    }
+  };
+
+  // Store a template saved from the current plan or imported from a file
+  const addCustomTemplate = (template: PresetTemplate) => {
+    const customTemplate = createCustomTemplate(template);
+    setCustomTemplates([...customTemplates, customTemplate]);
+    saveCustomTemplate(customTemplate).catch(error => console.error('Error saving template:', error));
+  };
+
+  const removeCustomTemplate = (id: string) => {
+    const template = customTemplates.find(candidate => candidate.id === id);
+    if (!template || !window.confirm(`Delete the template "${template.name}"? This cannot be undone.`)) return;
+
+    setCustomTemplates(customTemplates.filter(candidate => candidate.id !== id));
+    deleteCustomTemplate(id).catch(error => console.error('Error deleting template:', error));
+  };
+
+  const exportTemplate = async (template: PresetTemplate) => {
+    await saveFile(serializeTemplate(template), exportFilename('ip-network-template', '.json'), {
+      mimeType: 'application/json',
+      description: 'Network Plan Template',
+      extension: '.json'
+    });
+  };
+
+  // Update the open workspace plan's snapshots
+  const updateSnapshots = (update: (snapshots: PlanSnapshot[]) => PlanSnapshot[]) => {
+    const activePlan = workspacePlans.find(plan => plan.id === activePlanId);
+    if (!activePlan) return;
+
+    const updatedPlan = { ...activePlan, snapshots: update(activePlan.snapshots ?? []) };
+    setWorkspacePlans(workspacePlans.map(plan => plan.id === updatedPlan.id ? updatedPlan : plan));
+    saveWorkspacePlan(updatedPlan).catch(error => console.error('Error saving snapshots:', error));
+  };
+
+  const saveSnapshot = (name: string) => {
+    updateSnapshots(snapshots => [...snapshots, createPlanSnapshot(name, currentPlan)]);
+  };
+
+  const deleteSnapshot = (id: string) => {
+    updateSnapshots(snapshots => snapshots.filter(snapshot => snapshot.id !== id));
+  };
+
+  // Copy the shared plan into a new workspace plan
+  const forkSharedPlan = async () => {
+    if (!sharedPlan) return;
+
+    await addWorkspacePlan('Shared Plan', sharedPlan);
+    closeSharedPlan();
+  };
+
+  const closeSharedPlan = () => {
+    clearShareLink();
+    setSharedPlan(null);
+    setErrors([]);
+  };
+
+  const undo = () => {
+    const result = undoChange(history, currentPlan);
+    if (!result) return;
+    setHistory(result.history);
+    openPlan(result.plan);
+  };
+
+  const redo = () => {
+    const result = redoChange(history, currentPlan);
+    if (!result) return;
+    setHistory(result.history);
+    openPlan(result.plan);
+  };
+
+  // Undo and redo with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (event.target instanceof Element && event.target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const lastChange = history.past[history.past.length - 1];
+  const lastUndoneChange = history.future[history.future.length - 1];
+
   if (isLoading) {
     return <div className="flex items-center justify-center h-64">Loading...</div>;
   }
 
+  if (sharedPlan) {
+    return <SharedPlanView plan={sharedPlan} onFork={forkSharedPlan} onClose={closeSharedPlan} />;
+  }
+
   return (
     <div className="relative">
       {/* Saved Indicator */}
@@ -376,75 +1097,98 @@ export function NetworkPlanner() {
       )}
 
       {/* Templates Sidebar */}
-      <div className={`fixed inset-y-0 right-0 w-96 bg-background border-l shadow-lg transform transition-transform duration-300 ease-in-out z-40 ${showTemplates ? 'translate-x-0' : 'translate-x-full'}`}>
-        <div className="h-full flex flex-col">
-          {/* Sidebar Header */}
-          <div className="flex items-center justify-between p-4 border-b">
-            <h2 className="text-lg font-semibold">Quick Start Templates</h2>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setShowTemplates(false)}
-              className="h-8 w-8 p-0"
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          </div>
+      <TemplateSidebar
+        open={showTemplates}
+        presets={PRESET_TEMPLATES}
+        customTemplates={customTemplates}
+        provider={providerProfile}
+        onClose={() => setShowTemplates(false)}
+        onApply={applyTemplate}
+        onSaveCurrent={(name, description) => addCustomTemplate(templateFromPlan(name, description, currentPlan))}
+        onImport={addCustomTemplate}
+        onExport={exportTemplate}
+        onDelete={removeCustomTemplate}
+      />
 
-          {/* Templates Content */}
-          <div className="flex-1 overflow-y-auto p-4">
-            <p className="text-sm text-muted-foreground mb-4">
-              Choose from common cloud networking patterns to get started quickly
-            </p>
-            <div className="space-y-4">
-              {PRESET_TEMPLATES.map((preset) => (
-                <div key={preset.name} className="border rounded-lg p-4 hover:border-primary/50 transition-colors">
-                  <h3 className="font-semibold mb-2">{preset.name}</h3>
-                  <p className="text-sm text-muted-foreground mb-3">{preset.description}</p>
-                  <div className="flex justify-between items-center">
-                    <span className="text-xs text-muted-foreground">
-                      {preset.networkSegments.length} network segments • {preset.baseNetwork}
-                    </span>
-                    <Button 
-                      size="sm" 
-                      onClick={() => loadPreset(preset)}
-                      variant="outline"
-                    >
-                      Use Template
-                    </Button>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      </div>
+      {/* Workspace Sidebar */}
+      <WorkspaceSidebar
+        open={showWorkspace}
+        plans={workspacePlans}
+        activePlanId={activePlanId}
+        onClose={() => setShowWorkspace(false)}
+        onSelect={selectWorkspacePlan}
+        onCreate={() => addWorkspacePlan('New Plan', DEFAULT_PLAN)}
+        onRename={renameWorkspacePlan}
+        onDuplicate={duplicateWorkspacePlan}
+        onDelete={removeWorkspacePlan}
+      />
 
       {/* Overlay */}
-      {showTemplates && (
+      {(showTemplates || showWorkspace) && (
         <div 
           className="fixed inset-0 bg-black/20 z-30"
-          onClick={() => setShowTemplates(false)}
+          onClick={() => {
+            setShowTemplates(false);
+            setShowWorkspace(false);
+          }}
         />
       )}
 
       {/* Main Content */}
-      <div className={`transition-all duration-300 ${showTemplates ? 'mr-96' : ''}`}>
+      <div className={`transition-all duration-300 ${showTemplates ? 'mr-96' : ''} ${showWorkspace ? 'ml-80' : ''}`}>
         <div className="space-y-6">
-          {/* Header with Templates Button */}
+          {/* Header with Workspace and Templates Buttons */}
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-bold">IP Network Planner</h1>
               <p className="text-muted-foreground">Plan your IP address space for networks, VPCs, and network segments</p>
             </div>
-            <Button
-              onClick={() => setShowTemplates(true)}
-              variant="outline"
-              className="flex items-center gap-2"
-            >
-              <FolderOpen className="h-4 w-4" />
-              Templates
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={undo}
+                variant="outline"
+                disabled={!lastChange}
+                title={lastChange ? `Undo: ${lastChange.label} (Ctrl+Z)` : 'Nothing to undo'}
+                className="flex items-center gap-2"
+              >
+                <Undo2 className="h-4 w-4" />
+                Undo
+              </Button>
+              <Button
+                onClick={redo}
+                variant="outline"
+                disabled={!lastUndoneChange}
+                title={lastUndoneChange ? `Redo: ${lastUndoneChange.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="flex items-center gap-2"
+              >
+                <Redo2 className="h-4 w-4" />
+                Redo
+              </Button>
+              <Button
+                onClick={() => setShowWorkspace(true)}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <Layers className="h-4 w-4" />
+                {workspacePlans.find(plan => plan.id === activePlanId)?.name ?? 'Plans'}
+              </Button>
+              <Button
+                onClick={() => setShowRegistry(!showRegistry)}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <Network className="h-4 w-4" />
+                Registry
+              </Button>
+              <Button
+                onClick={() => setShowTemplates(true)}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <FolderOpen className="h-4 w-4" />
+                Templates
+              </Button>
+            </div>
           </div>
 
           {/* Base Network Configuration */}
@@ -452,18 +1196,180 @@ export function NetworkPlanner() {
             <CardHeader>
               <CardTitle>Base Network Configuration</CardTitle>
               <CardDescription>
-                Define your base IP network (e.g., 10.0.0.0/16 for VPC or on-premises network)
+                Define your base IP network (e.g., 10.0.0.0/16 for VPC or on-premises network, or 2001:db8:1200::/56 for an IPv6 VPC)
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-2">Base Network (CIDR)</label>
+                  <Input
+                    value={baseNetwork}
+                    onChange={(e) => {
+                      recordHistory('Changed base network');
+                      setBaseNetwork(e.target.value);
+                    }}
+                    placeholder="10.0.0.0/16"
+                    className="font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Provider</label>
+                  <Select
+                    value={provider}
+                    onValueChange={(value) => {
+                      recordHistory(`Changed provider to ${getCloudProviderProfile(value).name}`);
+                      setProvider(value as CloudProviderId);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLOUD_PROVIDER_PROFILES.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{providerProfile.description}</p>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium">Secondary Ranges (Optional)</label>
+                {secondaryBaseNetworks.map((range, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={range}
+                      onChange={(e) => updateBaseNetworks(
+                        'Changed secondary base network range',
+                        baseNetworks.map((candidate, position) => position === index + 1 ? e.target.value.trim() : candidate)
+                      )}
+                      placeholder="100.64.0.0/20"
+                      className="font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => moveBaseNetworkRange(index + 1, -1)}
+                      title={index === 0 ? 'Make this the primary base network' : 'Allocate from this range earlier'}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => moveBaseNetworkRange(index + 1, 1)}
+                      disabled={index === secondaryBaseNetworks.length - 1}
+                      title="Allocate from this range later"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateBaseNetworks(
+                        `Removed base network range ${range || '(empty)'}`,
+                        baseNetworks.filter((_, position) => position !== index + 1)
+                      )}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateBaseNetworks('Added a secondary base network range', [...baseNetworks, ''])}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add Range
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Further non-contiguous blocks, such as VPC secondary CIDRs. New network segments take the first range with room: the base network, then these ranges in order.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium">Reserved Ranges (Optional)</label>
+                {reservedRanges.map((reservedRange) => (
+                  <div key={reservedRange.id} className="flex items-center gap-2">
+                    <Input
+                      value={reservedRange.cidr}
+                      onChange={(e) => updateReservedRanges(
+                        'Changed reserved range',
+                        reservedRanges.map(candidate => candidate.id === reservedRange.id ? { ...candidate, cidr: e.target.value.trim() } : candidate)
+                      )}
+                      placeholder="172.17.0.0/16"
+                      className="font-mono"
+                    />
+                    <Input
+                      value={reservedRange.reason}
+                      onChange={(e) => updateReservedRanges(
+                        'Changed reserved range reason',
+                        reservedRanges.map(candidate => candidate.id === reservedRange.id ? { ...candidate, reason: e.target.value } : candidate)
+                      )}
+                      placeholder="Reason (e.g., VPN client pool)"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateReservedRanges(
+                        `Removed reserved range ${reservedRange.cidr || '(empty)'}`,
+                        reservedRanges.filter(candidate => candidate.id !== reservedRange.id)
+                      )}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateReservedRanges('Added a reserved range', [...reservedRanges, { id: createReservedRangeId(), cidr: '', reason: '' }])}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add Reserved Range
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Ranges that must never be allocated, such as VPN client pools, partner networks or the Docker default bridge (172.17.0.0/16). Allocation, validation and Optimize Layout treat them as occupied.
+                </p>
+              </div>
+              {baseVersion === 4 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">IPv6 Base Network (Optional, Dual-Stack)</label>
+                  <Input
+                    value={baseNetworkIpv6}
+                    onChange={(e) => {
+                      recordHistory('Changed IPv6 base network');
+                      setBaseNetworkIpv6(e.target.value.trim());
+                    }}
+                    placeholder="2001:db8:1200::/56"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Each network segment is paired with a /{DUAL_STACK_IPV6_SEGMENT_SIZE} from this block
+                  </p>
+                </div>
+              )}
               <div>
-                <label className="block text-sm font-medium mb-2">Base Network (CIDR)</label>
+                <label className="block text-sm font-medium mb-2">DNS Domain (Optional)</label>
                 <Input
-                  value={baseNetwork}
-                  onChange={(e) => setBaseNetwork(e.target.value)}
-                  placeholder="10.0.0.0/16"
+                  value={dnsDomain}
+                  onChange={(e) => {
+                    recordHistory('Changed DNS domain');
+                    setDnsDomain(e.target.value.trim());
+                  }}
+                  placeholder={DEFAULT_DNS_DOMAIN}
                   className="font-mono"
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Forward zone for the A and PTR records the BIND and DNS CSV exports generate from host reservations
+                </p>
               </div>
               
               {baseNetworkInfo && (
@@ -484,6 +1390,12 @@ export function NetworkPlanner() {
                     <span className="text-muted-foreground">Available:</span>
                     <div className="font-mono">{baseNetworkInfo.availableHosts.toLocaleString()}</div>
                   </div>
+                  {baseNetworkInfo.ipv6Cidr && (
+                    <div className="col-span-2 md:col-span-4">
+                      <span className="text-muted-foreground">IPv6 Block:</span>
+                      <div className="font-mono">{baseNetworkInfo.ipv6Cidr}</div>
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -494,10 +1406,33 @@ export function NetworkPlanner() {
             <CardHeader>
               <CardTitle>Add New Network Segment</CardTitle>
               <CardDescription>
-                Plan a new network segment within your base network
+                Plan a new network segment within your base network, or carve it out of another network segment
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {networkSegments.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Inside</label>
+                    <Select
+                      value={newParent?.id ?? BASE_NETWORK_PARENT}
+                      onValueChange={(value) => setNewParentId(value === BASE_NETWORK_PARENT ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BASE_NETWORK_PARENT}>Base network ({baseNetworks.join(', ')})</SelectItem>
+                        {segmentTree.map(({ segment, depth }) => (
+                          <SelectItem key={segment.id} value={segment.id}>
+                            {'\u00A0\u00A0'.repeat(depth + 1)}{segment.name} ({segment.cidr})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium mb-2">Network Segment Name</label>
@@ -507,39 +1442,61 @@ export function NetworkPlanner() {
                     placeholder="Public Network Segment AZ-1"
                   />
                 </div>
-                <div>
-                  <label className="block text-sm font-medium mb-2">Network Segment Size</label>
-                  <Select value={newNetworkSegmentSize.toString()} onValueChange={(value) => setNewNetworkSegmentSize(parseInt(value))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {COMMON_NETWORK_SEGMENT_SIZES.map((size) => (
-                        <SelectItem key={size.size} value={size.size.toString()}>
-                          {size.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <NetworkSegmentSizingFields
+                  version={baseVersion}
+                  provider={providerProfile}
+                  sizes={networkSegmentSizes}
+                  mode={newSizingMode}
+                  onModeChange={setNewSizingMode}
+                  size={newNetworkSegmentSize}
+                  onSizeChange={setNewNetworkSegmentSize}
+                  hosts={newRequiredHosts}
+                  onHostsChange={setNewRequiredHosts}
+                  growthPercent={newGrowthPercent}
+                  onGrowthPercentChange={setNewGrowthPercent}
+                  cidr={newNetworkSegmentCidr}
+                  onCidrChange={setNewNetworkSegmentCidr}
+                />
                 <div className="flex items-end">
                   <Button onClick={addNetworkSegment} className="w-full">
                     Add Network Segment
                   </Button>
                 </div>
               </div>
-              <div>
-                <label className="block text-sm font-medium mb-2">Description (Optional)</label>
-                <Textarea
-                  value={newNetworkSegmentDescription}
-                  onChange={(e) => setNewNetworkSegmentDescription(e.target.value)}
-                  placeholder="e.g., Public network segment for web servers in Availability Zone 1"
-                  rows={2}
-                />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-2">Description (Optional)</label>
+                  <Textarea
+                    value={newNetworkSegmentDescription}
+                    onChange={(e) => setNewNetworkSegmentDescription(e.target.value)}
+                    placeholder="e.g., Public network segment for web servers in Availability Zone 1"
+                    rows={2}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Availability Zone (Optional)</label>
+                  <Input
+                    value={newAvailabilityZone}
+                    onChange={(e) => setNewAvailabilityZone(e.target.value)}
+                    placeholder="us-east-1a"
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Availability Zone Groups */}
+          <ZoneGroupPanel
+            groups={networkSegmentGroups}
+            networkSegments={networkSegments}
+            sizes={networkSegmentSizes}
+            defaultZonePrefix={providerProfile.zonePrefix}
+            zoneNaming={providerProfile.zoneNaming}
+            onAdd={addNetworkSegmentGroup}
+            onZoneCountChange={changeGroupZoneCount}
+            onRemove={removeZoneGroup}
+          />
+
           {/* Error Display */}
           {errors.length > 0 && (
             <Card className="border-destructive">
@@ -568,8 +1525,12 @@ export function NetworkPlanner() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {networkSegments.map((segment) => (
-                    <div key={segment.id} className="border rounded-lg p-4">
+                  {segmentTree.map(({ segment, depth }) => (
+                    <div
+                      key={segment.id}
+                      className={`border rounded-lg p-4 ${depth > 0 ? 'border-l-4' : ''}`}
+                      style={{ marginLeft: `${depth * 1.5}rem` }}
+                    >
                       {editingNetworkSegment === segment.id ? (
                         // Edit mode
                         <div className="space-y-4">
@@ -582,21 +1543,21 @@ export function NetworkPlanner() {
                                 placeholder="Network Segment Name"
                               />
                             </div>
-                            <div>
-                              <label className="block text-sm font-medium mb-2">Network Segment Size</label>
-                              <Select value={editNetworkSegmentSize.toString()} onValueChange={(value) => setEditNetworkSegmentSize(parseInt(value))}>
-                                <SelectTrigger>
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {COMMON_NETWORK_SEGMENT_SIZES.map((size) => (
-                                    <SelectItem key={size.size} value={size.size.toString()}>
-                                      {size.name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            </div>
+                            <NetworkSegmentSizingFields
+                              version={baseVersion}
+                              provider={providerProfile}
+                              sizes={networkSegmentSizes}
+                              mode={editSizingMode}
+                              onModeChange={setEditSizingMode}
+                              size={editNetworkSegmentSize}
+                              onSizeChange={setEditNetworkSegmentSize}
+                              hosts={editRequiredHosts}
+                              onHostsChange={setEditRequiredHosts}
+                              growthPercent={editGrowthPercent}
+                              onGrowthPercentChange={setEditGrowthPercent}
+                              cidr={editNetworkSegmentCidr}
+                              onCidrChange={setEditNetworkSegmentCidr}
+                            />
                             <div className="flex items-end gap-2">
                               <Button onClick={saveEditNetworkSegment} size="sm" className="flex-1">
                                 Save
@@ -606,14 +1567,24 @@ export function NetworkPlanner() {
                               </Button>
                             </div>
                           </div>
-                          <div>
-                            <label className="block text-sm font-medium mb-2">Description (Optional)</label>
-                            <Textarea
-                              value={editNetworkSegmentDescription}
-                              onChange={(e) => setEditNetworkSegmentDescription(e.target.value)}
-                              placeholder="e.g., Public network segment for web servers"
-                              rows={2}
-                            />
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="md:col-span-2">
+                              <label className="block text-sm font-medium mb-2">Description (Optional)</label>
+                              <Textarea
+                                value={editNetworkSegmentDescription}
+                                onChange={(e) => setEditNetworkSegmentDescription(e.target.value)}
+                                placeholder="e.g., Public network segment for web servers"
+                                rows={2}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium mb-2">Availability Zone (Optional)</label>
+                              <Input
+                                value={editAvailabilityZone}
+                                onChange={(e) => setEditAvailabilityZone(e.target.value)}
+                                placeholder="us-east-1a"
+                              />
+                            </div>
                           </div>
                         </div>
                       ) : (
@@ -621,12 +1592,55 @@ export function NetworkPlanner() {
                         <>
                           <div className="flex justify-between items-start mb-3">
                             <div>
-                              <h3 className="font-semibold">{segment.name}</h3>
+                              <h3 className="font-semibold flex items-center gap-2">
+                                {segment.name}
+                                {segment.locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+                                {segment.groupId && (
+                                  <span className="text-xs font-normal text-muted-foreground">
+                                    zone group {networkSegmentGroups.find(group => group.id === segment.groupId)?.name}
+                                  </span>
+                                )}
+                                {childCounts.has(segment.id) && (
+                                  <span className="text-xs font-normal text-muted-foreground">
+                                    {childCounts.get(segment.id)} child segment{childCounts.get(segment.id) !== 1 ? 's' : ''}
+                                  </span>
+                                )}
+                              </h3>
                               {segment.description && (
                                 <p className="text-sm text-muted-foreground">{segment.description}</p>
                               )}
                             </div>
                             <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setNewParentId(segment.id)}
+                                title="Carve a child network segment out of this one"
+                                className="flex items-center gap-1"
+                              >
+                                <CornerDownRight className="h-3 w-3" />
+                                Add Child
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => toggleNetworkSegmentLock(segment.id)}
+                                title={segment.locked ? 'Unlock so Optimize Layout may move this network segment' : 'Lock so Optimize Layout never moves this network segment'}
+                                className="flex items-center gap-1"
+                              >
+                                {segment.locked ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                                {segment.locked ? 'Unlock' : 'Lock'}
+                              </Button>
+                              <Button
+                                variant={hostReservationSegmentId === segment.id ? 'default' : 'outline'}
+                                size="sm"
+                                onClick={() => setHostReservationSegmentId(hostReservationSegmentId === segment.id ? null : segment.id)}
+                                title="Static IPs reserved for hosts in this network segment"
+                                className="flex items-center gap-1"
+                              >
+                                <Server className="h-3 w-3" />
+                                Hosts{segment.hostReservations ? ` (${segment.hostReservations.length})` : ''}
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -654,17 +1668,62 @@ export function NetworkPlanner() {
                               <div className="font-mono">{segment.networkAddress}</div>
                             </div>
                             <div>
-                              <span className="text-muted-foreground">Broadcast:</span>
+                              <span className="text-muted-foreground">
+                                {getIpVersion(segment.cidr) === 6 ? 'Last Address:' : 'Broadcast:'}
+                              </span>
                               <div className="font-mono">{segment.broadcastAddress}</div>
                             </div>
                             <div>
                               <span className="text-muted-foreground">Hosts:</span>
-                              <div className="font-mono">{segment.totalHosts}</div>
+                              <div className="font-mono">{segment.totalHosts.toLocaleString()}</div>
                             </div>
                           </div>
                           <div className="mt-2 text-xs text-muted-foreground">
                             Host Range: {segment.firstHost} - {segment.lastHost}
                           </div>
+                          {segment.availabilityZone && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              Availability Zone: {segment.availabilityZone}
+                            </div>
+                          )}
+                          {segment.cloudResourceId && (
+                            <div className="mt-1 text-xs text-muted-foreground truncate" title={segment.cloudResourceId}>
+                              Cloud ID: <span className="font-mono">{segment.cloudResourceId}</span>
+                            </div>
+                          )}
+                          {segment.tags && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {segment.tags.map((tag) => (
+                                <span key={tag} className="px-2 py-0.5 rounded bg-muted text-xs">{tag}</span>
+                              ))}
+                            </div>
+                          )}
+                          {segment.requestedHosts !== undefined && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              Requested: {segment.requestedHosts.toLocaleString()} hosts
+                              {segment.growthPercent ? ` + ${segment.growthPercent}% growth` : ''}
+                              {' • '}Slack: {(segment.totalHosts - segment.requestedHosts).toLocaleString()} hosts
+                            </div>
+                          )}
+                          {segment.ipv6Cidr && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              IPv6 Block: <span className="font-mono">{segment.ipv6Cidr}</span>
+                            </div>
+                          )}
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            Reverse DNS: <span className="font-mono">{describeReverseZones(segment.cidr)}</span>
+                          </div>
+                          {hostReservationSegmentId === segment.id ? (
+                            <HostReservationPanel
+                              segment={segment}
+                              onChange={(label, reservations) => updateHostReservations(segment.id, label, reservations)}
+                              onDhcpChange={(label, dhcp) => updateDhcpSettings(segment.id, label, dhcp)}
+                            />
+                          ) : segment.hostReservations && (
+                            <div className="mt-2">
+                              <HostUtilizationMeter segment={segment} />
+                            </div>
+                          )}
                         </>
                       )}
                     </div>
@@ -674,8 +1733,44 @@ export function NetworkPlanner() {
             </CardContent>
           </Card>
 
+          {/* Optimization Preview */}
+          {pendingOptimization && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Optimize Layout Preview</CardTitle>
+                <CardDescription>
+                  {pendingOptimization.moves.length === 0
+                    ? 'The layout is already optimal: no network segments would move'
+                    : `${pendingOptimization.moves.length} network segment${pendingOptimization.moves.length !== 1 ? 's' : ''} would move, leaving a largest free block of ${pendingOptimization.largestFreeBlock.toLocaleString()} addresses. Locked network segments stay in place.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {pendingOptimization.moves.length > 0 && (
+                  <div className="space-y-2 text-sm">
+                    {pendingOptimization.moves.map((move) => (
+                      <div key={move.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md">
+                        <span className="font-medium">{move.name}</span>
+                        <span className="font-mono">
+                          {move.fromCidr} → {move.toCidr}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button onClick={applyOptimization} size="sm" disabled={pendingOptimization.moves.length === 0}>
+                    Apply
+                  </Button>
+                  <Button onClick={() => setPendingOptimization(null)} variant="outline" size="sm">
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Network Visualization */}
-          <NetworkVisualization baseNetwork={baseNetwork} networkSegments={networkSegments} />
+          <NetworkVisualization baseNetworks={baseNetworks} networkSegments={networkSegments} reservedRanges={reservedRanges} />
 
                      {/* Validation and Actions */}
            <div className="flex gap-4">
@@ -698,64 +1793,51 @@ export function NetworkPlanner() {
                Import Configuration
              </Button>
              <Button 
-               onClick={async () => {
-                 if (validateNetworkSegments()) {
-                   // Export configuration as JSON file
-                   const config = {
-                     baseNetwork,
-                     networkSegments,
-                     timestamp: new Date().toISOString()
-                   };
-                   
-                   // Create a more descriptive filename
-                   const dateStr = new Date().toISOString().split('T')[0];
-                   const timeStr = new Date().toTimeString().split(' ')[0].replace(/:/g, '-');
-                   const filename = `ip-network-config-${dateStr}-${timeStr}.json`;
-                   
-                   const jsonString = JSON.stringify(config, null, 2);
-                   const blob = new Blob([jsonString], { type: 'application/json' });
-                   
-                   // Try to use File System Access API for save dialog (modern browsers)
-                   if ('showSaveFilePicker' in window) {
-                     try {
-                       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                       const handle = await (window as Window & { showSaveFilePicker: any }).showSaveFilePicker({
-                         suggestedName: filename,
-                         types: [{
-                           description: 'JSON Configuration File',
-                           accept: { 'application/json': ['.json'] }
-                         }]
-                       });
-                       const writable = await handle.createWritable();
-                       await writable.write(jsonString);
-                       await writable.close();
-                     } catch {
-                       // Fallback to traditional download if user cancels or API fails
-                       const url = URL.createObjectURL(blob);
-                       const link = document.createElement('a');
-                       link.href = url;
-                       link.download = filename;
-                       document.body.appendChild(link);
-                       link.click();
-                       document.body.removeChild(link);
-                       URL.revokeObjectURL(url);
-                     }
-                   } else {
-                     // Fallback for older browsers
-                     const url = URL.createObjectURL(blob);
-                     const link = document.createElement('a');
-                     link.href = url;
-                     link.download = filename;
-                     document.body.appendChild(link);
-                     link.click();
-                     document.body.removeChild(link);
-                     URL.revokeObjectURL(url);
-                   }
-                 }
-               }}
+               onClick={() => setShowSegmentImport(true)}
+               variant="outline"
+               className="flex items-center gap-2"
+               disabled={baseNetworkErrors.length > 0}
+             >
+               <FileSpreadsheet className="h-4 w-4" />
+               Import CSV
+             </Button>
+             <Button 
+               onClick={() => setShowCloudImport(true)}
+               variant="outline"
+               className="flex items-center gap-2"
+             >
+               <CloudDownload className="h-4 w-4" />
+               Import From Cloud
+             </Button>
+             <Button 
+               onClick={exportConfiguration}
              >
                Export Configuration
              </Button>
+             <Button 
+               onClick={openExportPanel}
+               variant="outline"
+               className="flex items-center gap-2"
+             >
+               <FileCode className="h-4 w-4" />
+               Export As...
+             </Button>
+             <Button 
+               onClick={copyShareLink}
+               variant="outline"
+               className="flex items-center gap-2"
+             >
+               <Share2 className="h-4 w-4" />
+               {shareLinkCopied ? 'Link Copied!' : 'Copy Share Link'}
+             </Button>
+             <Button 
+               onClick={() => setShowSnapshots(true)}
+               variant="outline"
+               className="flex items-center gap-2"
+             >
+               <History className="h-4 w-4" />
+               Snapshots
+             </Button>
              <Button 
                onClick={resetConfiguration}
                variant="outline"
@@ -764,6 +1846,52 @@ export function NetworkPlanner() {
                Reset All
              </Button>
            </div>
+
+          {/* CSV Import */}
+          {showSegmentImport && (
+            <SegmentImportPanel
+              plan={currentPlan}
+              provider={providerProfile}
+              onImport={importNetworkSegments}
+              onClose={() => setShowSegmentImport(false)}
+            />
+          )}
+
+          {/* Cloud Import */}
+          {showCloudImport && (
+            <CloudImportPanel onImport={importCloudPlan} onClose={() => setShowCloudImport(false)} />
+          )}
+
+          {/* Export Preview */}
+          {showExportPanel && (
+            <ExportPanel plan={currentPlan} onClose={() => setShowExportPanel(false)} />
+          )}
+
+          {/* Snapshots and Diff */}
+          {showSnapshots && (
+            <SnapshotPanel
+              key={activePlanId}
+              snapshots={workspacePlans.find(plan => plan.id === activePlanId)?.snapshots ?? []}
+              currentPlan={currentPlan}
+              onSaveSnapshot={saveSnapshot}
+              onDeleteSnapshot={deleteSnapshot}
+              onClose={() => setShowSnapshots(false)}
+            />
+          )}
+
+          {/* Address Registry */}
+          {showRegistry && (
+            <RegistryPanel
+              plans={workspacePlans.map(plan => plan.id === activePlanId ? { ...plan, plan: currentPlan } : plan)}
+              activePlanId={activePlanId}
+              supernet={registrySupernet}
+              onSupernetChange={changeRegistrySupernet}
+              onToggleAllowOverlap={toggleAllowOverlap}
+              onSelectPlan={selectWorkspacePlan}
+              onCreatePlan={(cidr) => addWorkspacePlan('New Plan', { ...DEFAULT_PLAN, baseNetwork: cidr })}
+              onClose={() => setShowRegistry(false)}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,112 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { hostsWithGrowth } from '@/lib/subnet-utils';
+import type { IpVersion } from '@/lib/subnet-utils';
+import { providerSizeForHostCount } from '@/lib/providers';
+import type { CloudProviderProfile } from '@/lib/providers';
+
+export type SizingMode = 'prefix' | 'hosts' | 'cidr';
+
+interface NetworkSegmentSizingFieldsProps {
+  version: IpVersion;
+  provider: CloudProviderProfile;
+  sizes: Array<{ size: number; name: string }>;
+  mode: SizingMode;
+  onModeChange: (mode: SizingMode) => void;
+  size: number;
+  onSizeChange: (size: number) => void;
+  hosts: string;
+  onHostsChange: (hosts: string) => void;
+  growthPercent: string;
+  onGrowthPercentChange: (growthPercent: string) => void;
+  cidr: string;
+  onCidrChange: (cidr: string) => void;
+}
+
+export function NetworkSegmentSizingFields({
+  version,
+  provider,
+  sizes,
+  mode,
+  onModeChange,
+  size,
+  onSizeChange,
+  hosts,
+  onHostsChange,
+  growthPercent,
+  onGrowthPercentChange,
+  cidr,
+  onCidrChange,
+}: NetworkSegmentSizingFieldsProps) {
+  // Preview the prefix length the host count resolves to under the provider's reservations
+  const requestedHosts = parseInt(hosts);
+  const requestedGrowth = parseFloat(growthPercent) || 0;
+  const hasRequest = requestedHosts > 0 && requestedGrowth >= 0;
+  const previewSize = hasRequest
+    ? providerSizeForHostCount(provider, requestedHosts, requestedGrowth, version)
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium mb-2">Network Segment Size</label>
+      <Select value={mode} onValueChange={(value) => onModeChange(value as SizingMode)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="prefix">By prefix length</SelectItem>
+          <SelectItem value="hosts">By host count</SelectItem>
+          <SelectItem value="cidr">At explicit CIDR</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === 'prefix' ? (
+        <Select value={size.toString()} onValueChange={(value) => onSizeChange(parseInt(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sizes.map((option) => (
+              <SelectItem key={option.size} value={option.size.toString()}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : mode === 'cidr' ? (
+        <Input
+          value={cidr}
+          onChange={(e) => onCidrChange(e.target.value.trim())}
+          placeholder={version === 6 ? '2001:db8:1200:10::/64' : '10.0.128.0/20'}
+          className="font-mono"
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={hosts}
+              onChange={(e) => onHostsChange(e.target.value)}
+              placeholder="Hosts (e.g., 300)"
+            />
+            <Input
+              type="number"
+              min={0}
+              value={growthPercent}
+              onChange={(e) => onGrowthPercentChange(e.target.value)}
+              placeholder="Growth % (e.g., 30)"
+            />
+          </div>
+          {hasRequest && (
+            <p className="text-xs text-muted-foreground">
+              {hostsWithGrowth(requestedHosts, requestedGrowth).toLocaleString()} hosts with growth → {previewSize !== null
+                ? `/${previewSize}`
+                : `larger than the largest ${provider.name} subnet (/${provider.prefixRange[version].min})`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
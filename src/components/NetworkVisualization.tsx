@@ -1,10 +1,15 @@
-import { parseCidr } from '@/lib/subnet-utils';
-import type { NetworkSegmentPlan } from '@/lib/subnet-utils';
+import { useState } from 'react';
+import { childNetworkSegments, cidrRangeContains, cidrRangesOverlap, isValidCidr, parseCidrRange } from '@/lib/subnet-utils';
+import type { NetworkSegmentPlan, ReservedRange } from '@/lib/subnet-utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChevronRight } from 'lucide-react';
 
 interface NetworkVisualizationProps {
-  baseNetwork: string;
+  baseNetworks: string[]; // Every base network range, the primary range first; each gets its own bar
   networkSegments: NetworkSegmentPlan[];
+  reservedRanges?: ReservedRange[]; // Drawn hatched on every bar they cross
+  label?: string; // Shown on the bar when comparing, e.g. "After"
+  comparison?: { label: string; baseNetworks: string[]; networkSegments: NetworkSegmentPlan[]; reservedRanges?: ReservedRange[] }; // Drawn stacked above
 }
 
 // Color palette for network segments - distinct colors that work well together
@@ -23,13 +28,196 @@ const NETWORK_SEGMENT_COLORS = [
   '#F43F5E', // Rose
 ];
 
+// Diagonal hatching for reserved ranges
+const RESERVED_PATTERN = 'repeating-linear-gradient(45deg, rgba(100, 116, 139, 0.45) 0, rgba(100, 116, 139, 0.45) 4px, transparent 4px, transparent 8px)';
+
 // Get color for network segment based on index
 const getNetworkSegmentColor = (index: number): string => {
   return NETWORK_SEGMENT_COLORS[index % NETWORK_SEGMENT_COLORS.length];
 };
 
-export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVisualizationProps) {
-  if (!baseNetwork || networkSegments.length === 0) {
+// Percentage of a range, computed on bigints so IPv6 ranges keep their precision
+const toPercent = (value: bigint, total: bigint): number => {
+  return Number((value * 1000000n) / total) / 10000;
+};
+
+type SegmentVisualization = NetworkSegmentPlan & { offset: number; width: number; segmentRange: bigint };
+type ReservedVisualization = ReservedRange & { start: bigint; end: bigint; offset: number; width: number }; // Clipped to the bar
+
+interface BarLayout {
+  cidr: string;
+  totalRange: bigint;
+  usedRange: bigint;
+  reservedRange: bigint; // Reserved addresses on the bar, counting overlapping reserved ranges once
+  availableRange: bigint; // Addresses neither a network segment nor a reserved range takes
+  segmentVisualizations: SegmentVisualization[];
+  reservedVisualizations: ReservedVisualization[];
+}
+
+// Count the addresses a set of inclusive intervals covers, counting overlaps once
+const coveredAddresses = (intervals: Array<{ start: bigint; end: bigint }>): bigint => {
+  let covered = 0n;
+  let coveredUntil = -1n;
+  for (const { start, end } of [...intervals].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))) {
+    if (end <= coveredUntil) continue;
+    covered += end - (start > coveredUntil ? start : coveredUntil + 1n) + 1n;
+    coveredUntil = end;
+  }
+  return covered;
+};
+
+// Position the network segments and reserved ranges inside a base network range on a bar, sorted by network address
+const layoutNetworkSegments = (baseNetwork: string, networkSegments: NetworkSegmentPlan[], reservedRanges: ReservedRange[]): BarLayout => {
+  const base = parseCidrRange(baseNetwork);
+  const { start: baseStart, end: baseEnd } = base;
+  const totalRange = baseEnd - baseStart + 1n;
+
+  const segmentRanges = networkSegments
+    .map((segment) => ({ segment, range: parseCidrRange(segment.cidr) }))
+    .filter(({ range }) => cidrRangeContains(base, range));
+  const segmentVisualizations: SegmentVisualization[] = segmentRanges
+    .sort((a, b) => (a.range.start < b.range.start ? -1 : a.range.start > b.range.start ? 1 : 0))
+    .map(({ segment, range }) => {
+      const segmentRange = range.end - range.start + 1n;
+      return {
+        ...segment,
+        offset: toPercent(range.start - baseStart, totalRange),
+        width: toPercent(segmentRange, totalRange),
+        segmentRange
+      };
+    });
+
+  // Reserved ranges may extend past the bar, so only the part inside it is drawn
+  const reservedVisualizations: ReservedVisualization[] = reservedRanges
+    .filter(reservedRange => isValidCidr(reservedRange.cidr))
+    .map(reservedRange => ({ reservedRange, range: parseCidrRange(reservedRange.cidr) }))
+    .filter(({ range }) => cidrRangesOverlap(base, range))
+    .sort((a, b) => (a.range.start < b.range.start ? -1 : a.range.start > b.range.start ? 1 : 0))
+    .map(({ reservedRange, range }) => {
+      const start = range.start > baseStart ? range.start : baseStart;
+      const end = range.end < baseEnd ? range.end : baseEnd;
+      return {
+        ...reservedRange,
+        start,
+        end,
+        offset: toPercent(start - baseStart, totalRange),
+        width: toPercent(end - start + 1n, totalRange)
+      };
+    });
+
+  const reservedRange = coveredAddresses(reservedVisualizations);
+  const usedRange = segmentVisualizations.reduce((total, segment) => total + segment.segmentRange, 0n);
+
+  // Reserved ranges may lie inside network segments, so the free space subtracts their union
+  const availableRange = totalRange - coveredAddresses([...segmentRanges.map(({ range }) => range), ...reservedVisualizations]);
+  return { cidr: baseNetwork, totalRange, usedRange, reservedRange, availableRange, segmentVisualizations, reservedVisualizations };
+};
+
+// One bar for a focused network segment's children, or one per base network range
+const layoutBars = (
+  baseNetworks: string[],
+  networkSegments: NetworkSegmentPlan[],
+  reservedRanges: ReservedRange[],
+  focus: NetworkSegmentPlan | undefined
+): BarLayout[] => {
+  if (focus) {
+    return [layoutNetworkSegments(focus.cidr, childNetworkSegments(networkSegments, focus.id), reservedRanges)];
+  }
+  const topLevelSegments = childNetworkSegments(networkSegments, undefined);
+  return baseNetworks.filter(isValidCidr).map(cidr => layoutNetworkSegments(cidr, topLevelSegments, reservedRanges));
+};
+
+// Bar title for a base network range, or for the focused network segment
+const barTitle = (layout: BarLayout, index: number, label: string | undefined, focus: NetworkSegmentPlan | undefined): string => {
+  if (focus) return `${label ? `${label}: ` : ''}${focus.name} ${focus.cidr}`;
+  if (label) return `${label}: ${layout.cidr}`;
+  return `${index === 0 ? 'Base Network' : 'Secondary Range'}: ${layout.cidr}`;
+};
+
+// Ancestors of a network segment, outermost first, ending with the segment itself
+const networkSegmentPath = (networkSegments: NetworkSegmentPlan[], segment: NetworkSegmentPlan | undefined): NetworkSegmentPlan[] => {
+  const path: NetworkSegmentPlan[] = [];
+  for (let current = segment; current && !path.includes(current); current = networkSegments.find(candidate => candidate.id === current!.parentId)) {
+    path.unshift(current);
+  }
+  return path;
+};
+
+interface NetworkSegmentBarProps {
+  label: string;
+  layout: BarLayout;
+  colorFor: (segment: SegmentVisualization) => string;
+  hasChildren?: (segment: SegmentVisualization) => boolean;
+  onDrillDown?: (segment: SegmentVisualization) => void; // Called when a network segment with children is clicked
+}
+
+// Base network bar with network segment and reserved range overlays
+function NetworkSegmentBar({ label, layout, colorFor, hasChildren, onDrillDown }: NetworkSegmentBarProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground">
+          {toPercent(layout.usedRange, layout.totalRange).toFixed(1)}% used of {layout.totalRange.toLocaleString()} addresses
+          {layout.reservedRange > 0n && `, ${layout.reservedRange.toLocaleString()} reserved`}
+        </span>
+      </div>
+      <div className="w-full bg-muted rounded-md h-8 relative">
+        {/* Base network background */}
+        <div className="absolute inset-0 bg-primary/10 rounded-md"></div>
+
+        {/* Reserved range overlays, beneath the network segments */}
+        {layout.reservedVisualizations.map((reservedRange) => (
+          <div
+            key={reservedRange.id}
+            className="absolute h-full border border-slate-400"
+            style={{
+              left: `${reservedRange.offset}%`,
+              width: `${Math.max(reservedRange.width, 0.5)}%`,
+              backgroundImage: RESERVED_PATTERN,
+            }}
+            title={`Reserved: ${reservedRange.cidr}${reservedRange.reason ? ` - ${reservedRange.reason}` : ''}`}
+          />
+        ))}
+        
+        {/* Network segment overlays */}
+        {layout.segmentVisualizations.map((segment) => {
+          const segmentColor = colorFor(segment);
+          const borderColor = segmentColor; // Same color for border
+          const canDrillDown = !!onDrillDown && !!hasChildren?.(segment);
+          
+          return (
+            <div
+              key={segment.id}
+              className={`absolute h-full rounded-sm border-2 border-opacity-80 ${canDrillDown ? 'cursor-pointer hover:opacity-80' : ''}`}
+              style={{
+                left: `${segment.offset}%`,
+                width: `${Math.max(segment.width, 0.5)}%`, // Minimum width for visibility
+                backgroundColor: segmentColor,
+                borderColor: borderColor,
+              }}
+              title={`${segment.name}: ${segment.cidr} (${segment.segmentRange.toLocaleString()} addresses)${canDrillDown ? ' - click to show its child segments' : ''}`}
+              onClick={canDrillDown ? () => onDrillDown!(segment) : undefined}
+            >
+              {/* Show CIDR on larger network segments */}
+              {segment.width > 3 && (
+                <div className="text-xs text-white font-mono px-1 py-0.5 truncate">
+                  {segment.cidr}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function NetworkVisualization({ baseNetworks, networkSegments, reservedRanges = [], label, comparison }: NetworkVisualizationProps) {
+  // Network segment whose children are shown; the base network's top-level segments when unset
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  if (!isValidCidr(baseNetworks[0]) || (networkSegments.length === 0 && reservedRanges.length === 0 && !comparison?.networkSegments.length)) {
     return (
       <Card>
         <CardHeader>
@@ -49,35 +237,38 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
     );
   }
 
-  const { network: baseNet, mask: baseMask } = parseCidr(baseNetwork);
-  const baseStart = baseNet;
-  const baseEnd = baseNet | (~baseMask >>> 0);
-  const totalRange = baseEnd - baseStart + 1;
-
-  // Sort network segments by network address
-  const sortedSegments = [...networkSegments].sort((a, b) => {
-    const { network: netA } = parseCidr(a.cidr);
-    const { network: netB } = parseCidr(b.cidr);
-    return netA - netB;
-  });
-
-  // Calculate network segment positions and widths
-  const segmentVisualizations = sortedSegments.map((segment) => {
-    const { network: segmentNet, mask: segmentMask } = parseCidr(segment.cidr);
-    const segmentStart = segmentNet;
-    const segmentEnd = segmentNet | (~segmentMask >>> 0);
-    const segmentRange = segmentEnd - segmentStart + 1;
-
-    const offset = ((segmentStart - baseStart) / totalRange) * 100;
-    const width = (segmentRange / totalRange) * 100;
-
-    return {
-      ...segment,
-      offset,
-      width,
-      segmentRange
-    };
-  });
+  const focus = networkSegments.find(segment => segment.id === focusId);
+  const focusPath = networkSegmentPath(networkSegments, focus);
+  const layouts = layoutBars(baseNetworks, networkSegments, reservedRanges, focus);
+  const segmentVisualizations = layouts.flatMap(layout => layout.segmentVisualizations);
+
+  // When comparing, drill into the same network segment on the other side (matched by ID, then name)
+  const comparisonFocus = focus && comparison
+    ? comparison.networkSegments.find(segment => segment.id === focus.id) ?? comparison.networkSegments.find(segment => segment.name === focus.name)
+    : undefined;
+  const previousLayouts = comparison && isValidCidr(comparison.baseNetworks[0]) && (!focus || comparisonFocus)
+    ? layoutBars(comparison.baseNetworks, comparison.networkSegments, comparison.reservedRanges ?? [], comparisonFocus)
+    : null;
+
+  const hasChildren = (segment: NetworkSegmentPlan) => networkSegments.some(candidate => candidate.parentId === segment.id);
+  const drillDown = (segment: NetworkSegmentPlan) => setFocusId(segment.id);
+
+  // When comparing, a network segment keeps its color (by name) in both bars so moves stand out
+  const colorIndexByName = new Map<string, number>();
+  if (previousLayouts) {
+    for (const segment of [...segmentVisualizations, ...previousLayouts.flatMap(layout => layout.segmentVisualizations)]) {
+      if (!colorIndexByName.has(segment.name)) colorIndexByName.set(segment.name, colorIndexByName.size);
+    }
+  }
+  const colorIndexById = new Map(segmentVisualizations.map((segment, index) => [segment.id, index]));
+  const colorFor = (segment: SegmentVisualization) => {
+    return getNetworkSegmentColor(colorIndexByName.get(segment.name) ?? colorIndexById.get(segment.id) ?? 0);
+  };
+
+  const totalRange = layouts.reduce((total, layout) => total + layout.totalRange, 0n);
+  const usedRange = layouts.reduce((total, layout) => total + layout.usedRange, 0n);
+  const reservedRange = layouts.reduce((total, layout) => total + layout.reservedRange, 0n);
+  const availableRange = layouts.reduce((total, layout) => total + layout.availableRange, 0n);
 
   return (
     <Card>
@@ -88,55 +279,60 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Base Network Bar with Network Segment Overlays */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between text-sm">
-            <span className="font-medium">Base Network: {baseNetwork}</span>
-            <span className="text-muted-foreground">
-              {totalRange.toLocaleString()} total addresses
-            </span>
+        {/* Drill-down Breadcrumb */}
+        {focus && (
+          <div className="flex flex-wrap items-center gap-1 text-sm">
+            <button type="button" onClick={() => setFocusId(null)} className="text-primary hover:underline">
+              Base Network
+            </button>
+            {focusPath.map((segment) => (
+              <span key={segment.id} className="flex items-center gap-1">
+                <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                {segment.id === focus.id ? (
+                  <span className="font-medium">{segment.name}</span>
+                ) : (
+                  <button type="button" onClick={() => setFocusId(segment.id)} className="text-primary hover:underline">
+                    {segment.name}
+                  </button>
+                )}
+              </span>
+            ))}
           </div>
-          <div className="w-full bg-muted rounded-md h-8 relative">
-            {/* Base network background */}
-            <div className="absolute inset-0 bg-primary/10 rounded-md"></div>
-            
-            {/* Network segment overlays */}
-            {segmentVisualizations.map((segment, index) => {
-              const segmentColor = getNetworkSegmentColor(index);
-              const borderColor = segmentColor; // Same color for border
-              
-              return (
-                <div
-                  key={segment.id}
-                  className="absolute h-full rounded-sm border-2 border-opacity-80"
-                  style={{
-                    left: `${segment.offset}%`,
-                    width: `${Math.max(segment.width, 0.5)}%`, // Minimum width for visibility
-                    backgroundColor: segmentColor,
-                    borderColor: borderColor,
-                  }}
-                  title={`${segment.name}: ${segment.cidr} (${segment.segmentRange} addresses)`}
-                >
-                  {/* Show CIDR on larger network segments */}
-                  {segment.width > 3 && (
-                    <div className="text-xs text-white font-mono px-1 py-0.5 truncate">
-                      {segment.cidr}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-          </div>
-        </div>
+        )}
+
+        {/* Base Network Bars with Network Segment Overlays */}
+        {previousLayouts && comparison && previousLayouts.map((layout, index) => (
+          <NetworkSegmentBar
+            key={`before-${layout.cidr}`}
+            label={barTitle(layout, index, comparison.label, comparisonFocus)}
+            layout={layout}
+            colorFor={colorFor}
+          />
+        ))}
+        {layouts.map((layout, index) => (
+          <NetworkSegmentBar
+            key={layout.cidr}
+            label={barTitle(layout, index, label, focus)}
+            layout={layout}
+            colorFor={colorFor}
+            hasChildren={hasChildren}
+            onDrillDown={drillDown}
+          />
+        ))}
 
         {/* Network Segment Details List */}
         <div className="space-y-3">
           <h4 className="text-sm font-medium">Network Segment Details</h4>
-          {segmentVisualizations.map((segment, index) => {
-            const segmentColor = getNetworkSegmentColor(index);
+          {segmentVisualizations.map((segment) => {
+            const segmentColor = colorFor(segment);
             
+            const canDrillDown = hasChildren(segment);
             return (
-              <div key={segment.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-md">
+              <div
+                key={segment.id}
+                className={`flex items-center justify-between p-3 bg-muted/50 rounded-md ${canDrillDown ? 'cursor-pointer hover:bg-muted' : ''}`}
+                onClick={canDrillDown ? () => drillDown(segment) : undefined}
+              >
                 <div className="flex items-center gap-3">
                   <div
                     className="w-4 h-4 rounded-sm"
@@ -147,7 +343,10 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
                   
                   {/* Network segment info */}
                   <div>
-                    <div className="font-medium text-sm">{segment.name}</div>
+                    <div className="font-medium text-sm flex items-center gap-1">
+                      {segment.name}
+                      {canDrillDown && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                    </div>
                     <div className="text-xs text-muted-foreground">
                       {segment.networkAddress} - {segment.broadcastAddress}
                     </div>
@@ -155,6 +354,9 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
                 </div>
                 <div className="text-right">
                   <div className="text-sm font-mono">{segment.cidr}</div>
+                  {segment.ipv6Cidr && (
+                    <div className="text-xs font-mono text-muted-foreground">{segment.ipv6Cidr}</div>
+                  )}
                   <div className="text-xs text-muted-foreground">
                     {segment.segmentRange.toLocaleString()} addresses
                   </div>
@@ -175,6 +377,12 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
               <div className="w-3 h-3 bg-muted rounded"></div>
               <span>Available Space</span>
             </div>
+            {reservedRange > 0n && (
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded border border-slate-400" style={{ backgroundImage: RESERVED_PATTERN }}></div>
+                <span>Reserved</span>
+              </div>
+            )}
           </div>
           {segmentVisualizations.length > 0 && (
             <div className="text-xs text-muted-foreground mt-2">
@@ -187,25 +395,33 @@ export function NetworkVisualization({ baseNetwork, networkSegments }: NetworkVi
         <div className="pt-4 border-t">
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="text-muted-foreground">Total Network Segments:</span>
-              <div className="font-semibold">{networkSegments.length}</div>
+              <span className="text-muted-foreground">{focus ? `Child Segments of ${focus.name}:` : 'Total Network Segments:'}</span>
+              <div className="font-semibold">{segmentVisualizations.length}</div>
             </div>
             <div>
               <span className="text-muted-foreground">Used Addresses:</span>
               <div className="font-semibold">
-                {segmentVisualizations.reduce((total, segment) => total + segment.segmentRange, 0).toLocaleString()} addresses
+                {usedRange.toLocaleString()} addresses
               </div>
             </div>
             <div>
               <span className="text-muted-foreground">Available Addresses:</span>
               <div className="font-semibold">
-                {(totalRange - segmentVisualizations.reduce((total, segment) => total + segment.segmentRange, 0)).toLocaleString()} addresses
+                {availableRange.toLocaleString()} addresses
               </div>
             </div>
+            {reservedRange > 0n && (
+              <div>
+                <span className="text-muted-foreground">Reserved Addresses:</span>
+                <div className="font-semibold">
+                  {reservedRange.toLocaleString()} addresses
+                </div>
+              </div>
+            )}
             <div>
               <span className="text-muted-foreground">Utilization:</span>
               <div className="font-semibold">
-                {((segmentVisualizations.reduce((total, segment) => total + segment.segmentRange, 0) / totalRange) * 100).toFixed(1)}%
+                {toPercent(usedRange, totalRange).toFixed(1)}%
               </div>
             </div>
           </div>
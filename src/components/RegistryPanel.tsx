@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { findRegistryOverlaps, nextFreeRegistryBlock, registryEntries } from '@/lib/address-registry';
+import type { RegistryEntry } from '@/lib/address-registry';
+import { getIpVersion, getNetworkSegmentSizes, isCidrAligned, isValidCidr, parseCidrRange } from '@/lib/subnet-utils';
+import type { WorkspacePlan } from '@/lib/workspace';
+import { X, Plus, AlertTriangle } from 'lucide-react';
+
+interface RegistryPanelProps {
+  plans: WorkspacePlan[];
+  activePlanId: string | null;
+  supernet: string;
+  onSupernetChange: (cidr: string) => void;
+  onToggleAllowOverlap: (id: string) => void;
+  onSelectPlan: (id: string) => void;
+  onCreatePlan: (baseNetwork: string) => void;
+  onClose: () => void;
+}
+
+type EntryFlag = 'conflict' | 'allowed';
+
+// Identify an entry across the registry list and the overlap report
+const entryKey = (entry: RegistryEntry) => `${entry.planId}|${entry.kind}|${entry.name}|${entry.cidr}`;
+
+// Describe an entry with its plan, e.g. "Production: Base network 10.0.0.0/16"
+const describeEntry = (entry: RegistryEntry) => `${entry.planName}: ${entry.name} ${entry.cidr}`;
+
+export function RegistryPanel({
+  plans,
+  activePlanId,
+  supernet,
+  onSupernetChange,
+  onToggleAllowOverlap,
+  onSelectPlan,
+  onCreatePlan,
+  onClose,
+}: RegistryPanelProps) {
+  const [blockSize, setBlockSize] = useState<number>(16);
+
+  const entries = registryEntries(plans);
+  const overlaps = findRegistryOverlaps(plans);
+  const conflicts = overlaps.filter(overlap => !overlap.allowed);
+
+  // Mark every range and subnet involved in an overlap; conflicts win over allowed overlaps
+  const flags = new Map<string, EntryFlag>();
+  for (const overlap of overlaps) {
+    const flag: EntryFlag = overlap.allowed ? 'allowed' : 'conflict';
+    for (const entry of [overlap.first, overlap.second, ...overlap.conflictingSegments.flat()]) {
+      if (flags.get(entryKey(entry)) !== 'conflict') flags.set(entryKey(entry), flag);
+    }
+  }
+
+  const isValidSupernet = isValidCidr(supernet) && isCidrAligned(supernet);
+  const sizes = isValidSupernet
+    ? getNetworkSegmentSizes(getIpVersion(supernet)).filter(option => option.size >= parseCidrRange(supernet).size)
+    : [];
+  const size = sizes.some(option => option.size === blockSize) ? blockSize : sizes[0]?.size;
+  const nextFreeBlock = isValidSupernet && size !== undefined ? nextFreeRegistryBlock(supernet, plans, size) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Address Registry</CardTitle>
+            <CardDescription>
+              Every base network and network segment across the plans in this workspace, checked for overlaps between plans
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Next Free Block */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Next Free Block</h4>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-2 items-end">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Company Supernet</label>
+              <Input
+                value={supernet}
+                onChange={(e) => onSupernetChange(e.target.value.trim())}
+                placeholder="10.0.0.0/8"
+                className="font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Size</label>
+              <Select
+                value={size?.toString() ?? ''}
+                onValueChange={(value) => setBlockSize(Number(value))}
+                disabled={sizes.length === 0}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sizes.map((option) => (
+                    <SelectItem key={option.size} value={option.size.toString()}>/{option.size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => nextFreeBlock && onCreatePlan(nextFreeBlock)}
+              disabled={!nextFreeBlock}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              New Plan {nextFreeBlock ? `at ${nextFreeBlock}` : ''}
+            </Button>
+          </div>
+          {!isValidSupernet ? (
+            <p className="text-sm text-destructive">Enter the company supernet as a CIDR network address (e.g., 10.0.0.0/8)</p>
+          ) : nextFreeBlock ? (
+            <p className="text-sm">
+              Next free /{size}: <span className="font-mono font-medium">{nextFreeBlock}</span>
+              <span className="text-muted-foreground"> (plans allowed to overlap are not counted)</span>
+            </p>
+          ) : (
+            <p className="text-sm text-destructive">No /{size} in {supernet} is clear of every plan</p>
+          )}
+        </div>
+
+        {/* Overlaps */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Overlaps Between Plans</h4>
+          {overlaps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No base networks overlap between plans</p>
+          ) : (
+            <div className="space-y-2">
+              {overlaps.map((overlap) => (
+                <div
+                  key={`${entryKey(overlap.first)}-${entryKey(overlap.second)}`}
+                  className={`p-3 rounded-md text-sm ${overlap.allowed ? 'bg-muted/50' : 'bg-red-50 text-red-800'}`}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    {!overlap.allowed && <AlertTriangle className="h-4 w-4" />}
+                    {describeEntry(overlap.first)} overlaps {describeEntry(overlap.second)}
+                    {overlap.allowed && <span className="text-xs font-normal text-muted-foreground">(allowed: isolated environment)</span>}
+                  </div>
+                  {overlap.conflictingSegments.length > 0 && (
+                    <ul className="mt-1 text-xs space-y-1">
+                      {overlap.conflictingSegments.map(([segment, otherSegment]) => (
+                        <li key={`${entryKey(segment)}-${entryKey(otherSegment)}`} className="font-mono">
+                          {segment.name} {segment.cidr} ↔ {otherSegment.name} {otherSegment.cidr}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {conflicts.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Overlapping plans can't be peered or attached to the same transit gateway. Renumber one of them, or mark an isolated environment as allowed to overlap.
+            </p>
+          )}
+        </div>
+
+        {/* Registry */}
+        <div className="space-y-4">
+          <h4 className="text-sm font-medium">Registered Addresses</h4>
+          {plans.map((workspacePlan) => (
+            <div key={workspacePlan.id} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => onSelectPlan(workspacePlan.id)}
+                  className={`font-medium text-sm hover:underline ${workspacePlan.id === activePlanId ? 'text-primary' : ''}`}
+                >
+                  {workspacePlan.name}
+                </button>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={!!workspacePlan.allowOverlap}
+                    onChange={() => onToggleAllowOverlap(workspacePlan.id)}
+                  />
+                  Isolated (allowed to overlap)
+                </label>
+              </div>
+              {entries.filter(entry => entry.planId === workspacePlan.id).map((entry) => {
+                const flag = flags.get(entryKey(entry));
+                return (
+                  <div
+                    key={entryKey(entry)}
+                    className={`flex items-center justify-between p-2 rounded-md text-xs ${
+                      flag === 'conflict' ? 'bg-red-50 text-red-800' : flag === 'allowed' ? 'bg-amber-50 text-amber-800' : 'bg-muted/50'
+                    }`}
+                    style={{ marginLeft: `${entry.depth * 1.25}rem` }}
+                  >
+                    <span className={entry.kind === 'base-network' ? 'font-medium' : ''}>{entry.name}</span>
+                    <span className="flex items-center gap-2">
+                      {flag === 'conflict' && <span>Overlaps another plan</span>}
+                      {flag === 'allowed' && <span>Allowed overlap</span>}
+                      <span className="font-mono">{entry.cidr}</span>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { previewSegmentImport } from '@/lib/segment-csv';
+import type { NetworkPlan, NetworkSegmentPlan } from '@/lib/subnet-utils';
+import type { CloudProviderProfile } from '@/lib/providers';
+import { X, Upload, FileSpreadsheet } from 'lucide-react';
+
+interface SegmentImportPanelProps {
+  plan: NetworkPlan;
+  provider: CloudProviderProfile;
+  onImport: (networkSegments: NetworkSegmentPlan[]) => void;
+  onClose: () => void;
+}
+
+export function SegmentImportPanel({ plan, provider, onImport, onClose }: SegmentImportPanelProps) {
+  const [text, setText] = useState<string>('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(() => text.trim() ? previewSegmentImport(text, plan, provider) : null, [text, plan, provider]);
+  const rows = preview && 'rows' in preview ? preview.rows : [];
+  const importableSegments = rows.flatMap(row => row.segment ? [row.segment] : []);
+  const rowsWithErrors = rows.filter(row => row.errors.length > 0).length;
+
+  // Load a CSV or TSV file into the text box so it can be previewed and edited
+  const loadFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => setText(e.target?.result as string);
+    reader.readAsText(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Import Network Segments</CardTitle>
+            <CardDescription>
+              Paste rows from a spreadsheet or load a CSV file. Rows with a CIDR are placed there; rows with only a size or host count take the next free block.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'name,cidr,size,description,az,tags\nPublic A,10.0.0.0/24,,Load balancers,us-east-1a,public\nApp A,,22,Application servers,us-east-1a,app; private'}
+          className="font-mono text-xs min-h-32"
+        />
+        <div className="flex items-center gap-2">
+          <Button onClick={() => fileInput.current?.click()} variant="outline" className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Choose CSV File
+          </Button>
+          <input ref={fileInput} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" onChange={loadFile} />
+          <span className="text-xs text-muted-foreground">
+            Columns: name, cidr or size or hosts (with optional growth), description, az, tags, locked
+          </span>
+        </div>
+
+        {preview && 'error' in preview && <p className="text-sm text-destructive">{preview.error}</p>}
+
+        {preview && 'rows' in preview && (
+          <div className="space-y-3">
+            {preview.ignoredColumns.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Ignored columns: {preview.ignoredColumns.join(', ')}
+              </p>
+            )}
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The header row has no data rows below it</p>
+            ) : (
+              <div className="overflow-auto max-h-96 border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+                    <tr>
+                      <th className="p-2 font-medium">Row</th>
+                      <th className="p-2 font-medium">Name</th>
+                      <th className="p-2 font-medium">CIDR</th>
+                      <th className="p-2 font-medium">Placement</th>
+                      <th className="p-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.row} className="border-t align-top">
+                        <td className="p-2 text-muted-foreground">{row.row}</td>
+                        <td className="p-2 font-medium">{row.name || '—'}</td>
+                        <td className="p-2 font-mono text-xs">
+                          {row.segment?.cidr ?? '—'}
+                          {row.segment?.ipv6Cidr && <div className="text-muted-foreground">{row.segment.ipv6Cidr}</div>}
+                        </td>
+                        <td className="p-2 text-xs">{row.placement === 'explicit' ? 'At CIDR' : 'Next free block'}</td>
+                        <td className="p-2 text-xs">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-destructive space-y-1">
+                              {row.errors.map((error, index) => <li key={index}>{error}</li>)}
+                            </ul>
+                          ) : (
+                            <span className="text-green-700">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {rowsWithErrors > 0 ? `${rowsWithErrors} row${rowsWithErrors > 1 ? 's' : ''} with errors will be skipped` : ''}
+              </span>
+              <Button
+                onClick={() => onImport(importableSegments)}
+                disabled={importableSegments.length === 0}
+                className="flex items-center gap-2"
+              >
+                <FileSpreadsheet className="h-4 w-4" />
+                Import {importableSegments.length} Network Segment{importableSegments.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
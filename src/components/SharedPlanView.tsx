@@ -0,0 +1,130 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { describeReservedRange, networkSegmentTree, planBaseNetworks } from '@/lib/subnet-utils';
+import type { NetworkPlan } from '@/lib/subnet-utils';
+import { getCloudProviderProfile } from '@/lib/providers';
+import { NetworkVisualization } from './NetworkVisualization';
+import { GitFork, Lock, X } from 'lucide-react';
+
+interface SharedPlanViewProps {
+  plan: NetworkPlan;
+  onFork: () => void;
+  onClose: () => void;
+}
+
+// Read-only view of a plan opened from a share link
+export function SharedPlanView({ plan, onFork, onClose }: SharedPlanViewProps) {
+  const provider = getCloudProviderProfile(plan.provider);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Shared Network Plan</h1>
+          <p className="text-muted-foreground">This plan is read-only. Fork it to edit a copy in your workspace.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={onFork} className="flex items-center gap-2">
+            <GitFork className="h-4 w-4" />
+            Fork into my workspace
+          </Button>
+          <Button onClick={onClose} variant="outline" className="flex items-center gap-2">
+            <X className="h-4 w-4" />
+            Close
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Base Network</CardTitle>
+          <CardDescription>{provider.name} profile</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Base Network:</span>
+              <div className="font-mono">{plan.baseNetwork}</div>
+            </div>
+            {plan.secondaryBaseNetworks && plan.secondaryBaseNetworks.length > 0 && (
+              <div>
+                <span className="text-muted-foreground">Secondary Ranges:</span>
+                <div className="font-mono">{plan.secondaryBaseNetworks.join(', ')}</div>
+              </div>
+            )}
+            {plan.baseNetworkIpv6 && (
+              <div>
+                <span className="text-muted-foreground">IPv6 Block:</span>
+                <div className="font-mono">{plan.baseNetworkIpv6}</div>
+              </div>
+            )}
+            <div>
+              <span className="text-muted-foreground">Network Segments:</span>
+              <div className="font-mono">{plan.networkSegments.length}</div>
+            </div>
+            {plan.reservedRanges && plan.reservedRanges.length > 0 && (
+              <div className="col-span-2 md:col-span-4">
+                <span className="text-muted-foreground">Reserved Ranges:</span>
+                <div className="font-mono">{plan.reservedRanges.map(describeReservedRange).join(', ')}</div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Network Segments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plan.networkSegments.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">This plan has no network segments</p>
+          ) : (
+            <div className="space-y-3">
+              {networkSegmentTree(plan.networkSegments).map(({ segment, depth }) => (
+                <div key={segment.id} className="border rounded-lg p-4" style={{ marginLeft: `${depth * 1.5}rem` }}>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{segment.name}</h3>
+                    {segment.locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+                  </div>
+                  {segment.description && (
+                    <p className="text-sm text-muted-foreground">{segment.description}</p>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm mt-2">
+                    <div>
+                      <span className="text-muted-foreground">CIDR:</span>
+                      <div className="font-mono">{segment.cidr}</div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Hosts:</span>
+                      <div className="font-mono">{segment.totalHosts.toLocaleString()}</div>
+                    </div>
+                    {segment.ipv6Cidr && (
+                      <div>
+                        <span className="text-muted-foreground">IPv6 Block:</span>
+                        <div className="font-mono">{segment.ipv6Cidr}</div>
+                      </div>
+                    )}
+                    {segment.availabilityZone && (
+                      <div>
+                        <span className="text-muted-foreground">Availability Zone:</span>
+                        <div className="font-mono">{segment.availabilityZone}</div>
+                      </div>
+                    )}
+                  </div>
+                  {segment.hostReservations && (
+                    <div className="mt-2 text-xs text-muted-foreground">
+                      Host Reservations: {segment.hostReservations.map(reservation => `${reservation.address}${reservation.name ? ` (${reservation.name})` : ''}`).join(', ')}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NetworkVisualization baseNetworks={planBaseNetworks(plan)} networkSegments={plan.networkSegments} reservedRanges={plan.reservedRanges} />
+    </div>
+  );
+}
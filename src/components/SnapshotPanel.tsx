@@ -0,0 +1,245 @@
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { diffPlans } from '@/lib/plan-diff';
+import { parsePlanFile } from '@/lib/plan-schema';
+import type { NetworkSegmentDiff } from '@/lib/plan-diff';
+import type { PlanSnapshot } from '@/lib/workspace';
+import { planBaseNetworks } from '@/lib/subnet-utils';
+import type { NetworkPlan } from '@/lib/subnet-utils';
+import { NetworkVisualization } from './NetworkVisualization';
+import { X, Camera, Trash2, Upload } from 'lucide-react';
+
+interface SnapshotPanelProps {
+  snapshots: PlanSnapshot[];
+  currentPlan: NetworkPlan;
+  onSaveSnapshot: (name: string) => void;
+  onDeleteSnapshot: (id: string) => void;
+  onClose: () => void;
+}
+
+const CURRENT_PLAN = 'current';
+const IMPORTED_PLAN = 'imported';
+
+const STATUS_STYLES: Record<NetworkSegmentDiff['status'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+export function SnapshotPanel({ snapshots, currentPlan, onSaveSnapshot, onDeleteSnapshot, onClose }: SnapshotPanelProps) {
+  const [snapshotName, setSnapshotName] = useState<string>('');
+  const [beforeId, setBeforeId] = useState<string>(snapshots[snapshots.length - 1]?.id ?? '');
+  const [afterId, setAfterId] = useState<string>(CURRENT_PLAN);
+  const [importedPlan, setImportedPlan] = useState<{ name: string; plan: NetworkPlan } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Resolve a compare selection to a labeled plan
+  const resolvePlan = (id: string): { label: string; plan: NetworkPlan } | null => {
+    if (id === CURRENT_PLAN) return { label: 'Current plan', plan: currentPlan };
+    if (id === IMPORTED_PLAN) return importedPlan && { label: importedPlan.name, plan: importedPlan.plan };
+    const snapshot = snapshots.find(candidate => candidate.id === id);
+    return snapshot ? { label: snapshot.name, plan: snapshot.plan } : null;
+  };
+
+  const before = resolvePlan(beforeId);
+  const after = resolvePlan(afterId);
+  const diff = before && after ? diffPlans(before.plan, after.plan) : null;
+
+  const saveSnapshot = () => {
+    const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`;
+    onSaveSnapshot(name);
+    setSnapshotName('');
+  };
+
+  // Load a JSON configuration file to compare against
+  const importComparisonFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parsePlanFile(e.target?.result as string);
+      if ('errors' in result) {
+        setImportError(`${file.name} could not be loaded: ${result.errors.join('; ')}`);
+        return;
+      }
+      setImportedPlan({ name: file.name, plan: result.plan });
+      setBeforeId(IMPORTED_PLAN);
+      setImportError(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const compareOptions = [
+    { id: CURRENT_PLAN, name: 'Current plan' },
+    ...snapshots.map(snapshot => ({ id: snapshot.id, name: snapshot.name })),
+    ...(importedPlan ? [{ id: IMPORTED_PLAN, name: `File: ${importedPlan.name}` }] : []),
+  ];
+
+  const visibleDiffs = diff?.networkSegments.filter(segmentDiff => showUnchanged || segmentDiff.status !== 'unchanged') ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Snapshots</CardTitle>
+            <CardDescription>Save named versions of this plan and review address changes between them</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Save Snapshot */}
+        <div className="flex gap-2">
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="Snapshot name (e.g., Before AZ expansion)"
+          />
+          <Button onClick={saveSnapshot} className="flex items-center gap-2">
+            <Camera className="h-4 w-4" />
+            Save Snapshot
+          </Button>
+        </div>
+
+        {/* Saved Snapshots */}
+        {snapshots.length > 0 && (
+          <div className="space-y-2">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md text-sm">
+                <div>
+                  <div className="font-medium">{snapshot.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(snapshot.createdAt).toLocaleString()} • {snapshot.plan.baseNetwork} • {snapshot.plan.networkSegments.length} network segments
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDeleteSnapshot(snapshot.id)}
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                  title="Delete snapshot"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Compare */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Compare</h4>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Before</label>
+              <Select value={beforeId} onValueChange={setBeforeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {compareOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">After</label>
+              <Select value={afterId} onValueChange={setAfterId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {compareOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => fileInput.current?.click()} variant="outline" className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Compare with JSON File
+            </Button>
+            <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={importComparisonFile} />
+          </div>
+          {importError && <p className="text-sm text-destructive">{importError}</p>}
+        </div>
+
+        {/* Diff */}
+        {diff && before && after ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {diff.counts.added} added • {diff.counts.removed} removed • {diff.counts.changed} changed • {diff.counts.unchanged} unchanged
+              </span>
+              <label className="flex items-center gap-2 text-muted-foreground">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged
+              </label>
+            </div>
+            {diff.baseNetworkBefore !== diff.baseNetworkAfter && (
+              <div className="text-sm">
+                Base network: <span className="font-mono">{diff.baseNetworkBefore}</span> → <span className="font-mono">{diff.baseNetworkAfter}</span>
+              </div>
+            )}
+            {visibleDiffs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No network segment changes</p>
+            ) : (
+              <div className="space-y-2">
+                {visibleDiffs.map((segmentDiff, index) => {
+                  const segment = segmentDiff.after ?? segmentDiff.before!;
+                  return (
+                    <div key={`${segment.id}-${index}`} className="flex items-center justify-between p-2 border rounded-md text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[segmentDiff.status]}`}>
+                          {segmentDiff.status === 'changed' ? segmentDiff.changes.join(', ') : segmentDiff.status}
+                        </span>
+                        <span className="font-medium">
+                          {segmentDiff.changes.includes('renamed')
+                            ? `${segmentDiff.before!.name} → ${segmentDiff.after!.name}`
+                            : segment.name}
+                        </span>
+                      </div>
+                      <div className="font-mono text-xs">
+                        {segmentDiff.before && segmentDiff.after && segmentDiff.before.cidr !== segmentDiff.after.cidr
+                          ? `${segmentDiff.before.cidr} → ${segmentDiff.after.cidr}`
+                          : segment.cidr}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <NetworkVisualization
+              baseNetworks={planBaseNetworks(after.plan)}
+              networkSegments={after.plan.networkSegments}
+              reservedRanges={after.plan.reservedRanges}
+              label={`After (${after.label})`}
+              comparison={{
+                label: `Before (${before.label})`,
+                baseNetworks: planBaseNetworks(before.plan),
+                networkSegments: before.plan.networkSegments,
+                reservedRanges: before.plan.reservedRanges
+              }}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Save a snapshot or load a JSON file, then choose the two versions to compare
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
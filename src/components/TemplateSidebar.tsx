@@ -0,0 +1,269 @@
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { PresetTemplate, TemplateParameters } from '@/lib/presets';
+import { instantiateTemplate, parseTemplateFile, templateInputs } from '@/lib/templates';
+import type { CloudProviderProfile } from '@/lib/providers';
+import type { NetworkPlan } from '@/lib/subnet-utils';
+import type { CustomTemplate } from '@/lib/workspace';
+import { MAX_GROUP_ZONES } from '@/lib/segment-groups';
+import { X, Save, Upload, Download, Trash2 } from 'lucide-react';
+
+interface TemplateSidebarProps {
+  open: boolean;
+  presets: PresetTemplate[];
+  customTemplates: CustomTemplate[];
+  provider: CloudProviderProfile;
+  onClose: () => void;
+  onApply: (templateName: string, plan: NetworkPlan) => void;
+  onSaveCurrent: (name: string, description: string) => void;
+  onImport: (template: PresetTemplate) => void;
+  onExport: (template: PresetTemplate) => void;
+  onDelete: (id: string) => void;
+}
+
+// Parameter inputs as typed, before they are parsed
+interface ParameterDraft {
+  baseNetwork: string;
+  zoneCount: string;
+  environments: string; // Comma-separated
+  growthPercent: string;
+}
+
+const toDraft = (parameters: TemplateParameters): ParameterDraft => ({
+  baseNetwork: parameters.baseNetwork,
+  zoneCount: parameters.zoneCount.toString(),
+  environments: parameters.environments.join(', '),
+  growthPercent: parameters.growthPercent.toString(),
+});
+
+const fromDraft = (draft: ParameterDraft): TemplateParameters => ({
+  baseNetwork: draft.baseNetwork.trim(),
+  zoneCount: Number(draft.zoneCount),
+  environments: draft.environments.split(',').map(environment => environment.trim()).filter(environment => environment !== ''),
+  growthPercent: draft.growthPercent.trim() === '' ? 0 : Number(draft.growthPercent),
+});
+
+export function TemplateSidebar({
+  open,
+  presets,
+  customTemplates,
+  provider,
+  onClose,
+  onApply,
+  onSaveCurrent,
+  onImport,
+  onExport,
+  onDelete,
+}: TemplateSidebarProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ParameterDraft | null>(null);
+  const [templateErrors, setTemplateErrors] = useState<string[]>([]);
+  const [templateName, setTemplateName] = useState<string>('');
+  const [templateDescription, setTemplateDescription] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Ask for a template's parameters, starting from its defaults
+  const selectTemplate = (key: string, template: PresetTemplate) => {
+    setSelectedKey(key);
+    setDraft(toDraft(template.parameters));
+    setTemplateErrors([]);
+  };
+
+  const applyTemplate = (template: PresetTemplate) => {
+    if (!draft) return;
+    const result = instantiateTemplate(template, fromDraft(draft), provider);
+    if ('errors' in result) {
+      setTemplateErrors(result.errors);
+      return;
+    }
+    onApply(template.name, result.plan);
+    setSelectedKey(null);
+    setTemplateErrors([]);
+  };
+
+  const saveCurrent = () => {
+    if (!templateName.trim()) return;
+    onSaveCurrent(templateName.trim(), templateDescription.trim());
+    setTemplateName('');
+    setTemplateDescription('');
+  };
+
+  // Load a template file into the custom templates
+  const importTemplateFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parseTemplateFile(e.target?.result as string);
+      if ('errors' in result) {
+        setImportError(`${file.name} could not be loaded: ${result.errors.join('; ')}`);
+        return;
+      }
+      onImport(result.template);
+      setImportError(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const renderTemplate = (key: string, template: PresetTemplate, customId?: string) => {
+    const inputs = templateInputs(template);
+    return (
+      <div key={key} className="border rounded-lg p-4 hover:border-primary/50 transition-colors">
+        <h3 className="font-semibold mb-2">{template.name}</h3>
+        {template.description && <p className="text-sm text-muted-foreground mb-3">{template.description}</p>}
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {template.networkSegments.length} tier{template.networkSegments.length !== 1 ? 's' : ''} • {template.parameters.baseNetwork}
+          </span>
+          <div className="flex gap-1">
+            {customId && (
+              <>
+                <Button size="sm" variant="ghost" onClick={() => onExport(template)} className="h-8 w-8 p-0" title="Export template file">
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onDelete(customId)} className="h-8 w-8 p-0 text-red-600 hover:text-red-700" title="Delete template">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button size="sm" onClick={() => selectTemplate(key, template)} variant="outline">
+              Use Template
+            </Button>
+          </div>
+        </div>
+
+        {selectedKey === key && draft && (
+          <div className="mt-4 space-y-3 border-t pt-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Base Network</label>
+              <Input
+                value={draft.baseNetwork}
+                onChange={(e) => setDraft({ ...draft, baseNetwork: e.target.value })}
+                placeholder="10.0.0.0/16"
+                className="font-mono"
+              />
+            </div>
+            {inputs.zones && (
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Availability Zones</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_GROUP_ZONES}
+                  value={draft.zoneCount}
+                  onChange={(e) => setDraft({ ...draft, zoneCount: e.target.value })}
+                />
+              </div>
+            )}
+            {inputs.environments && (
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Environments (comma-separated)</label>
+                <Input
+                  value={draft.environments}
+                  onChange={(e) => setDraft({ ...draft, environments: e.target.value })}
+                  placeholder="Dev, Staging, Prod"
+                />
+              </div>
+            )}
+            {inputs.growth && (
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Growth (%)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.growthPercent}
+                  onChange={(e) => setDraft({ ...draft, growthPercent: e.target.value })}
+                />
+              </div>
+            )}
+            {templateErrors.length > 0 && (
+              <div className="text-destructive space-y-1">
+                {templateErrors.map((error, index) => (
+                  <div key={index} className="text-xs">• {error}</div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => applyTemplate(template)} className="flex-1">
+                Create Plan
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setSelectedKey(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-96 bg-background border-l shadow-lg transform transition-transform duration-300 ease-in-out z-40 ${open ? 'translate-x-0' : 'translate-x-full'}`}>
+      <div className="h-full flex flex-col">
+        {/* Sidebar Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">Templates</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Templates Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Save Current Plan */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Save Current Plan as Template</h3>
+            <Input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+            />
+            <Input
+              value={templateDescription}
+              onChange={(e) => setTemplateDescription(e.target.value)}
+              placeholder="Description (optional)"
+            />
+            <div className="flex gap-2">
+              <Button onClick={saveCurrent} disabled={!templateName.trim()} size="sm" className="flex-1 flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                Save Template
+              </Button>
+              <Button onClick={() => fileInput.current?.click()} size="sm" variant="outline" className="flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+              <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={importTemplateFile} />
+            </div>
+            {importError && <p className="text-xs text-destructive">{importError}</p>}
+          </div>
+
+          {/* Custom Templates */}
+          {customTemplates.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium">My Templates</h3>
+              {customTemplates.map((template) => renderTemplate(`custom:${template.id}`, template, template.id))}
+            </div>
+          )}
+
+          {/* Quick Start Templates */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium">Quick Start Templates</h3>
+            <p className="text-sm text-muted-foreground">
+              Choose from common cloud networking patterns to get started quickly
+            </p>
+            {presets.map((preset) => renderTemplate(`preset:${preset.name}`, preset))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { WorkspacePlan } from '@/lib/workspace';
+import { X, Plus, Pencil, Copy, Trash2, Check } from 'lucide-react';
+
+interface WorkspaceSidebarProps {
+  open: boolean;
+  plans: WorkspacePlan[];
+  activePlanId: string | null;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function WorkspaceSidebar({
+  open,
+  plans,
+  activePlanId,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: WorkspaceSidebarProps) {
+  const [renamingPlanId, setRenamingPlanId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+
+  const startRename = (plan: WorkspacePlan) => {
+    setRenamingPlanId(plan.id);
+    setRenameValue(plan.name);
+  };
+
+  const finishRename = () => {
+    if (renamingPlanId && renameValue.trim()) {
+      onRename(renamingPlanId, renameValue.trim());
+    }
+    setRenamingPlanId(null);
+  };
+
+  return (
+    <div className={`fixed inset-y-0 left-0 w-80 bg-background border-r shadow-lg transform transition-transform duration-300 ease-in-out z-40 ${open ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className="h-full flex flex-col">
+        {/* Sidebar Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">Workspace Plans</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Plans */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <Button onClick={onCreate} variant="outline" className="w-full flex items-center gap-2 mb-2">
+            <Plus className="h-4 w-4" />
+            New Plan
+          </Button>
+          {plans.map((plan) => (
+            <div
+              key={plan.id}
+              className={`border rounded-lg p-3 transition-colors ${plan.id === activePlanId ? 'border-primary bg-muted/50' : 'hover:border-primary/50'}`}
+            >
+              {renamingPlanId === plan.id ? (
+                <div className="flex gap-2">
+                  <Input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename();
+                      if (e.key === 'Escape') setRenamingPlanId(null);
+                    }}
+                    autoFocus
+                  />
+                  <Button size="sm" onClick={finishRename} className="h-9 w-9 p-0">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <button onClick={() => onSelect(plan.id)} className="w-full text-left">
+                  <div className="font-medium truncate">{plan.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono">
+                    {plan.plan.baseNetwork} • {plan.plan.networkSegments.length} network segments
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Updated {new Date(plan.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+              )}
+              <div className="flex justify-end gap-1 mt-2">
+                <Button variant="ghost" size="sm" onClick={() => startRename(plan)} className="h-7 w-7 p-0" title="Rename">
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onDuplicate(plan.id)} className="h-7 w-7 p-0" title="Duplicate">
+                  <Copy className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete(plan.id)}
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                  title="Delete"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { groupBlockCidr, groupCopies, MAX_GROUP_ZONES } from '@/lib/segment-groups';
+import { networkSegmentTree } from '@/lib/subnet-utils';
+import type { NetworkSegmentGroup, NetworkSegmentPlan, ZoneNaming } from '@/lib/subnet-utils';
+import { Plus, Minus, Trash2 } from 'lucide-react';
+
+const BASE_NETWORK_PARENT = 'base-network';
+
+interface ZoneGroupPanelProps {
+  groups: NetworkSegmentGroup[];
+  networkSegments: NetworkSegmentPlan[];
+  sizes: Array<{ size: number; name: string }>;
+  defaultZonePrefix: string;
+  zoneNaming: ZoneNaming;
+  onAdd: (group: Omit<NetworkSegmentGroup, 'id'>) => boolean;
+  onZoneCountChange: (id: string, zoneCount: number) => void;
+  onRemove: (id: string) => void;
+}
+
+// Define a tier once and replicate it across availability zones in one aligned block
+export function ZoneGroupPanel({
+  groups,
+  networkSegments,
+  sizes,
+  defaultZonePrefix,
+  zoneNaming,
+  onAdd,
+  onZoneCountChange,
+  onRemove,
+}: ZoneGroupPanelProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [size, setSize] = useState<number>(24);
+  const [zoneCount, setZoneCount] = useState('3');
+  const [zonePrefix, setZonePrefix] = useState<string | null>(null);
+  const [parentId, setParentId] = useState('');
+
+  const segmentTree = networkSegmentTree(networkSegments);
+  const parent = networkSegments.find(segment => segment.id === parentId);
+  const selectedSize = sizes.some(option => option.size === size) ? size : sizes[0]?.size;
+
+  const addGroup = () => {
+    if (selectedSize === undefined) return;
+    const added = onAdd({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      size: selectedSize,
+      zoneCount: Number(zoneCount),
+      zonePrefix: zonePrefix ?? defaultZonePrefix,
+      zoneNaming,
+      parentId: parent?.id
+    });
+    if (added) {
+      setName('');
+      setDescription('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Availability Zone Groups</CardTitle>
+        <CardDescription>
+          Define a tier once and get one network segment per availability zone, side by side in one aligned block
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Tier Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., private"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Size per Zone</label>
+            <Select
+              value={selectedSize?.toString() ?? ''}
+              onValueChange={(value) => setSize(Number(value))}
+              disabled={sizes.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sizes.map((option) => (
+                  <SelectItem key={option.size} value={option.size.toString()}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Zones</label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_GROUP_ZONES}
+              value={zoneCount}
+              onChange={(e) => setZoneCount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Zone Prefix</label>
+            <Input
+              value={zonePrefix ?? defaultZonePrefix}
+              onChange={(e) => setZonePrefix(e.target.value.trim())}
+              placeholder="e.g., us-east-1"
+              className="font-mono"
+            />
+          </div>
+          {networkSegments.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Inside</label>
+              <Select
+                value={parent?.id ?? BASE_NETWORK_PARENT}
+                onValueChange={(value) => setParentId(value === BASE_NETWORK_PARENT ? '' : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BASE_NETWORK_PARENT}>Base network</SelectItem>
+                  {segmentTree.map(({ segment, depth }) => (
+                    <SelectItem key={segment.id} value={segment.id}>
+                      {'\u00A0\u00A0'.repeat(depth + 1)}{segment.name} ({segment.cidr})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium mb-2">Description (optional)</label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Application servers"
+            />
+          </div>
+        </div>
+        <Button onClick={addGroup} disabled={selectedSize === undefined} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Zone Group
+        </Button>
+
+        {groups.length > 0 && (
+          <div className="space-y-3">
+            {groups.map((group) => {
+              const copies = groupCopies(networkSegments, group.id);
+              const blockCidr = groupBlockCidr(group, networkSegments);
+              return (
+                <div key={group.id} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="font-semibold">{group.name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        /{group.size} per zone{blockCidr ? <> in <span className="font-mono">{blockCidr}</span></> : ' (copies are not in one aligned block)'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onZoneCountChange(group.id, group.zoneCount - 1)}
+                        disabled={group.zoneCount <= 1}
+                        className="h-8 w-8 p-0"
+                        title="Remove the last zone"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                      <span className="text-sm w-16 text-center">{group.zoneCount} {group.zoneCount === 1 ? 'zone' : 'zones'}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onZoneCountChange(group.id, group.zoneCount + 1)}
+                        disabled={group.zoneCount >= MAX_GROUP_ZONES}
+                        className="h-8 w-8 p-0"
+                        title="Add a zone"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRemove(group.id)}
+                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        title="Remove the group and its network segments"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
+                    {copies.map((copy) => (
+                      <div key={copy.id} className="flex items-center justify-between p-2 rounded-md bg-muted/50">
+                        <span>{copy.availabilityZone || copy.name}</span>
+                        <span className="font-mono">{copy.cidr}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import {
+  cidrRangesOverlap,
+  createNetworkSegmentFromCidr,
+  findNextAvailableNetworkSegment,
+  isValidCidr,
+  leafNetworkSegments,
+  networkSegmentTree,
+  parseCidrRange,
+  planBaseNetworks
+} from './subnet-utils';
+import type { WorkspacePlan } from './workspace';
+
+// One address block recorded in the registry
+export interface RegistryEntry {
+  planId: string;
+  planName: string;
+  kind: 'base-network' | 'network-segment';
+  name: string; // Range label for base networks, segment name for network segments
+  cidr: string;
+  depth: number; // Nesting depth below the base network; 0 for base network ranges
+}
+
+// Base network ranges of two plans that overlap
+export interface RegistryOverlap {
+  first: RegistryEntry;
+  second: RegistryEntry;
+  allowed: boolean; // One of the plans is an isolated environment that may reuse addresses
+  conflictingSegments: [RegistryEntry, RegistryEntry][]; // Subnets of the two plans that overlap each other
+}
+
+export const DEFAULT_REGISTRY_SUPERNET = '10.0.0.0/8';
+
+// Base network ranges of a plan (IPv4 or IPv6 ranges, then the dual-stack IPv6 prefix) as registry entries
+const baseNetworkEntries = (workspacePlan: WorkspacePlan): RegistryEntry[] => {
+  const { plan } = workspacePlan;
+  const ranges = planBaseNetworks(plan).map((cidr, index) => ({ cidr, name: index === 0 ? 'Base network' : `Secondary range ${index}` }));
+  if (plan.baseNetworkIpv6) {
+    ranges.push({ cidr: plan.baseNetworkIpv6, name: 'IPv6 base network' });
+  }
+
+  return ranges
+    .filter(range => isValidCidr(range.cidr))
+    .map((range): RegistryEntry => ({ planId: workspacePlan.id, planName: workspacePlan.name, kind: 'base-network', name: range.name, cidr: range.cidr, depth: 0 }));
+};
+
+// Registry entry for a network segment
+const segmentEntry = (workspacePlan: WorkspacePlan, name: string, cidr: string, depth = 1): RegistryEntry => ({
+  planId: workspacePlan.id,
+  planName: workspacePlan.name,
+  kind: 'network-segment',
+  name,
+  cidr,
+  depth
+});
+
+// Check two CIDRs for overlap, treating invalid CIDRs (e.g., while being typed) as overlapping nothing
+const cidrsOverlap = (first: string, second: string): boolean => {
+  return isValidCidr(first) && isValidCidr(second) && cidrRangesOverlap(parseCidrRange(first), parseCidrRange(second));
+};
+
+// Every base network range and network segment of every plan, each plan's segments as a tree below its ranges
+export function registryEntries(plans: WorkspacePlan[]): RegistryEntry[] {
+  return plans.flatMap(workspacePlan => [
+    ...baseNetworkEntries(workspacePlan),
+    ...networkSegmentTree(workspacePlan.plan.networkSegments).map(({ segment, depth }) => segmentEntry(workspacePlan, segment.name, segment.cidr, depth + 1))
+  ]);
+}
+
+// Find base network ranges that overlap between plans, with the subnets that collide inside them.
+// Overlaps involving a plan marked as allowed to overlap are reported but flagged as allowed.
+export function findRegistryOverlaps(plans: WorkspacePlan[]): RegistryOverlap[] {
+  const overlaps: RegistryOverlap[] = [];
+  const entriesByPlan = plans.map(workspacePlan => ({ workspacePlan, ranges: baseNetworkEntries(workspacePlan) }));
+
+  entriesByPlan.forEach(({ workspacePlan, ranges }, i) => {
+    for (const { workspacePlan: otherPlan, ranges: otherRanges } of entriesByPlan.slice(i + 1)) {
+      for (const range of ranges) {
+        for (const otherRange of otherRanges) {
+          if (!cidrsOverlap(range.cidr, otherRange.cidr)) continue;
+
+          // Subnets of each plan inside the overlapping ranges that collide with each other
+          const subnets = leafNetworkSegments(workspacePlan.plan.networkSegments).filter(segment => cidrsOverlap(segment.cidr, range.cidr));
+          const otherSubnets = leafNetworkSegments(otherPlan.plan.networkSegments).filter(segment => cidrsOverlap(segment.cidr, otherRange.cidr));
+          const conflictingSegments = subnets.flatMap(segment => otherSubnets
+            .filter(otherSegment => cidrsOverlap(segment.cidr, otherSegment.cidr))
+            .map((otherSegment): [RegistryEntry, RegistryEntry] => [
+              segmentEntry(workspacePlan, segment.name, segment.cidr),
+              segmentEntry(otherPlan, otherSegment.name, otherSegment.cidr)
+            ]));
+
+          overlaps.push({
+            first: range,
+            second: otherRange,
+            allowed: !!workspacePlan.allowOverlap || !!otherPlan.allowOverlap,
+            conflictingSegments
+          });
+        }
+      }
+    }
+  });
+
+  return overlaps;
+}
+
+// Suggest the first free block of a size in a company supernet, clear of every plan's base network
+// ranges. Plans allowed to overlap are isolated, so their ranges don't block the suggestion.
+export function nextFreeRegistryBlock(supernet: string, plans: WorkspacePlan[], size: number): string | null {
+  const occupied = plans
+    .filter(workspacePlan => !workspacePlan.allowOverlap)
+    .flatMap(workspacePlan => baseNetworkEntries(workspacePlan))
+    .map((entry, index) => createNetworkSegmentFromCidr(entry.cidr, index));
+  return findNextAvailableNetworkSegment(supernet, occupied, size)?.cidr ?? null;
+}
@@ -0,0 +1,68 @@
+import { leafNetworkSegments, planBaseNetworks } from './subnet-utils';
+import type { NetworkPlan } from './subnet-utils';
+import { uniqueIdentifiers } from './export-utils';
+
+// Quote a string for Bicep, escaping interpolation
+const bicepString = (value: string): string => {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r?\n/g, '\\n')
+    .replace(/\$\{/g, () => '\\${');
+  return `'${escaped}'`;
+};
+
+// Turn a name into a valid Azure subnet name (letters, digits, '-', '_' and '.')
+const toAzureSubnetName = (name: string): string => {
+  const sanitized = name.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[^A-Za-z0-9]+/, '').replace(/[.-]+$/, '');
+  return sanitized.slice(0, 80) || 'subnet';
+};
+
+// Generate a Bicep file with a Microsoft.Network/virtualNetworks resource holding every leaf network segment as a subnet
+export function generateBicep(plan: NetworkPlan, virtualNetworkName = 'main'): string {
+  const addressPrefixes = [...planBaseNetworks(plan), ...(plan.baseNetworkIpv6 ? [plan.baseNetworkIpv6] : [])];
+  const subnetSegments = leafNetworkSegments(plan.networkSegments);
+  const subnetNames = uniqueIdentifiers(subnetSegments.map(segment => segment.name), toAzureSubnetName, '-');
+
+  const subnets = subnetSegments.flatMap((segment, index) => {
+    const lines = ['      {'];
+    if (segment.description) {
+      lines.push(`        // ${segment.description.replace(/\r?\n/g, ' ')}`);
+    }
+    lines.push(`        name: ${bicepString(subnetNames[index])}`, '        properties: {');
+    if (segment.ipv6Cidr) {
+      lines.push(
+        '          addressPrefixes: [',
+        `            ${bicepString(segment.cidr)}`,
+        `            ${bicepString(segment.ipv6Cidr)}`,
+        '          ]',
+      );
+    } else {
+      lines.push(`          addressPrefix: ${bicepString(segment.cidr)}`);
+    }
+    lines.push('        }', '      }');
+    return lines;
+  });
+
+  const lines = [
+    '// Generated by IP Network Planner',
+    'param location string = resourceGroup().location',
+    '',
+    "resource virtualNetwork 'Microsoft.Network/virtualNetworks@2023-09-01' = {",
+    `  name: ${bicepString(virtualNetworkName)}`,
+    '  location: location',
+    '  properties: {',
+    '    addressSpace: {',
+    '      addressPrefixes: [',
+    ...addressPrefixes.map(prefix => `        ${bicepString(prefix)}`),
+    '      ]',
+    '    }',
+    '    subnets: [',
+    ...subnets,
+    '    ]',
+    '  }',
+    '}',
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { planFromCloudInventory, readCloudInventory } from './cloud-import';
+import type { CloudInventory } from './cloud-import';
+
+const describeVpcs = (cidrBlocks: string[], ipv6CidrBlocks: string[] = []) => JSON.stringify({
+  Vpcs: [{
+    VpcId: 'vpc-1',
+    CidrBlock: cidrBlocks[0],
+    CidrBlockAssociationSet: cidrBlocks.map(cidr => ({ CidrBlock: cidr, CidrBlockState: { State: 'associated' } })),
+    Ipv6CidrBlockAssociationSet: ipv6CidrBlocks.map(cidr => ({ Ipv6CidrBlock: cidr, Ipv6CidrBlockState: { State: 'associated' } })),
+    Tags: [{ Key: 'Name', Value: 'prod' }]
+  }]
+}, null, 2);
+
+const describeSubnets = (subnets: Array<{ id: string; cidr: string; ipv6Cidr?: string }>) => JSON.stringify({
+  Subnets: subnets.map(subnet => ({
+    SubnetId: subnet.id,
+    VpcId: 'vpc-1',
+    CidrBlock: subnet.cidr,
+    AvailabilityZone: 'us-east-1a',
+    Ipv6CidrBlockAssociationSet: subnet.ipv6Cidr ? [{ Ipv6CidrBlock: subnet.ipv6Cidr }] : [],
+    Tags: [{ Key: 'Name', Value: subnet.id.replace('subnet-', '') }, { Key: 'env', Value: 'prod' }]
+  }))
+}, null, 2);
+
+// Read pasted documents, failing the test when they are rejected
+const inventoryOf = (...documents: string[]): CloudInventory => {
+  const result = readCloudInventory(documents.join('\n'));
+  if ('error' in result) throw new Error(result.error);
+  return result.inventory;
+};
+
+describe('cloud import', () => {
+  it('turns every subnet into a locked network segment that keeps its cloud details', () => {
+    const inventory = inventoryOf(describeVpcs(['10.0.0.0/16']), describeSubnets([{ id: 'subnet-web', cidr: '10.0.1.0/24' }]));
+    const result = planFromCloudInventory(inventory, 'vpc-1');
+
+    expect(inventory.provider).toBe('aws');
+    expect(result).toEqual({
+      plan: expect.objectContaining({ baseNetwork: '10.0.0.0/16', provider: 'aws' }),
+      warnings: []
+    });
+    expect('plan' in result && result.plan.networkSegments).toEqual([expect.objectContaining({
+      name: 'web',
+      cidr: '10.0.1.0/24',
+      availabilityZone: 'us-east-1a',
+      tags: ['env=prod'],
+      cloudResourceId: 'subnet-web',
+      locked: true
+    })]);
+  });
+
+  it('keeps the primary block as the base network and the others as secondary ranges, without merging them', () => {
+    const inventory = inventoryOf(
+      describeVpcs(['10.1.0.0/16', '10.0.0.0/16', '10.1.128.0/17']),
+      describeSubnets([{ id: 'subnet-a', cidr: '10.1.1.0/24' }, { id: 'subnet-b', cidr: '10.0.1.0/24' }])
+    );
+    const result = planFromCloudInventory(inventory, 'vpc-1');
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.plan.baseNetwork).toBe('10.1.0.0/16');
+    expect(result.plan.secondaryBaseNetworks).toEqual(['10.0.0.0/16']);
+    expect(result.plan.networkSegments.map(segment => segment.cidr)).toEqual(['10.1.1.0/24', '10.0.1.0/24']);
+    expect(result.warnings).toEqual(['The address block 10.1.128.0/17 overlaps another block of the network, so it is not planned']);
+  });
+
+  it('covers every subnet when the network address space is missing', () => {
+    const inventory = inventoryOf(describeSubnets([{ id: 'subnet-a', cidr: '10.0.1.0/24' }, { id: 'subnet-b', cidr: '10.0.6.0/24' }]));
+    const result = planFromCloudInventory(inventory, 'vpc-1');
+
+    expect('plan' in result && result.plan.baseNetwork).toBe('10.0.0.0/21');
+  });
+
+  it('keeps IPv6 blocks inside the network block and reports the others', () => {
+    const inventory = inventoryOf(
+      describeVpcs(['10.0.0.0/16'], ['2600:1f18:1::/56']),
+      describeSubnets([
+        { id: 'subnet-a', cidr: '10.0.1.0/24', ipv6Cidr: '2600:1f18:1:1::/64' },
+        { id: 'subnet-b', cidr: '10.0.2.0/24', ipv6Cidr: '2600:1f18:2:1::/64' }
+      ])
+    );
+    const result = planFromCloudInventory(inventory, 'vpc-1');
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.plan.baseNetworkIpv6).toBe('2600:1f18:1::/56');
+    expect(result.plan.networkSegments.map(segment => segment.ipv6Cidr)).toEqual(['2600:1f18:1:1::/64', undefined]);
+    expect(result.warnings).toEqual([expect.stringContaining('2600:1f18:2:1::/64 of subnet b is outside')]);
+  });
+});
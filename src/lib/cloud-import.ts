@@ -0,0 +1,363 @@
+import {
+  applyAddressReservation,
+  baseNetworkContaining,
+  cidrRangeContains,
+  coveringCidr,
+  createNetworkSegmentFromCidr,
+  getIpVersion,
+  isCidrAligned,
+  isValidCidr,
+  parseCidrRange,
+  validateBaseNetworks
+} from './subnet-utils';
+import type { NetworkPlan, NetworkSegmentPlan } from './subnet-utils';
+import { getCloudProviderProfile } from './providers';
+import type { CloudProviderId } from './providers';
+
+// A VPC (AWS), virtual network (Azure) or VPC network (Google Cloud)
+export interface CloudNetwork {
+  id: string;
+  name: string;
+  cidrBlocks: string[]; // Primary block first
+}
+
+export interface CloudSubnet {
+  id: string;
+  name: string;
+  networkId: string;
+  cidr?: string;
+  ipv6Cidr?: string;
+  availabilityZone?: string; // Availability zone (AWS) or region (Google Cloud)
+  description?: string;
+  tags: string[]; // Tags other than Name, as Key=Value
+  secondaryRanges: string[]; // Google Cloud alias ranges, which are not imported
+}
+
+export interface CloudInventory {
+  provider: Exclude<CloudProviderId, 'on-prem'>;
+  networks: CloudNetwork[];
+  subnets: CloudSubnet[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asString = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined;
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Last path segment of a cloud resource URL or ID (e.g., .../networks/prod -> prod)
+const lastPathSegment = (value: string): string => value.split('/').filter(Boolean).pop() ?? value;
+
+// Split text holding one or more JSON documents pasted one after another
+export function splitJsonDocuments(text: string): string[] | { error: string } {
+  const documents: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (depth === 0 && !/\s/.test(char)) {
+      if (char !== '{' && char !== '[') {
+        return { error: `Unexpected "${char}" outside a JSON object or array` };
+      }
+      start = i;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) documents.push(text.slice(start, i + 1));
+    }
+  }
+
+  if (depth !== 0 || inString) {
+    return { error: 'The pasted JSON ends before its last object or array is closed' };
+  }
+  return documents;
+}
+
+// Read AWS tags into a Name and the remaining tags as Key=Value
+const readAwsTags = (value: unknown): { name?: string; tags: string[] } => {
+  let name: string | undefined;
+  const tags: string[] = [];
+  for (const tag of asArray(value)) {
+    if (!isObject(tag) || typeof tag.Key !== 'string') continue;
+    if (tag.Key === 'Name') {
+      name = asString(tag.Value);
+    } else {
+      tags.push(`${tag.Key}=${tag.Value ?? ''}`);
+    }
+  }
+  return { name, tags };
+};
+
+// aws ec2 describe-vpcs
+const readAwsVpcs = (vpcs: unknown[]): CloudNetwork[] => vpcs.filter(isObject).map(vpc => {
+  const primary = asString(vpc.CidrBlock);
+  const associated = asArray(vpc.CidrBlockAssociationSet)
+    .filter(isObject)
+    .filter(association => !isObject(association.CidrBlockState) || association.CidrBlockState.State === 'associated')
+    .flatMap(association => asString(association.CidrBlock) ?? []);
+  const ipv6 = asArray(vpc.Ipv6CidrBlockAssociationSet)
+    .filter(isObject)
+    .filter(association => !isObject(association.Ipv6CidrBlockState) || association.Ipv6CidrBlockState.State === 'associated')
+    .flatMap(association => asString(association.Ipv6CidrBlock) ?? []);
+
+  const id = asString(vpc.VpcId) ?? 'vpc';
+  return {
+    id,
+    name: readAwsTags(vpc.Tags).name ?? id,
+    cidrBlocks: [...new Set([...(primary ? [primary] : []), ...associated, ...ipv6])]
+  };
+});
+
+// aws ec2 describe-subnets
+const readAwsSubnets = (subnets: unknown[]): CloudSubnet[] => subnets.filter(isObject).map(subnet => {
+  const id = asString(subnet.SubnetId) ?? 'subnet';
+  const { name, tags } = readAwsTags(subnet.Tags);
+  const ipv6Cidr = asArray(subnet.Ipv6CidrBlockAssociationSet)
+    .filter(isObject)
+    .flatMap(association => asString(association.Ipv6CidrBlock) ?? [])[0];
+  return {
+    id,
+    name: name ?? id,
+    networkId: asString(subnet.VpcId) ?? '',
+    cidr: asString(subnet.CidrBlock),
+    ipv6Cidr,
+    availabilityZone: asString(subnet.AvailabilityZone),
+    tags,
+    secondaryRanges: []
+  };
+});
+
+// Azure subnet IDs end in /virtualNetworks/<vnet>/subnets/<subnet>; the network ID is everything before /subnets/
+const azureNetworkId = (subnetId: string): string => subnetId.replace(/\/subnets\/[^/]+$/i, '');
+
+// az network vnet subnet list, or the subnets of az network vnet list
+const readAzureSubnet = (subnet: JsonObject, networkId?: string): CloudSubnet => {
+  const id = asString(subnet.id) ?? asString(subnet.name) ?? 'subnet';
+  const prefixes = [asString(subnet.addressPrefix), ...asArray(subnet.addressPrefixes).map(asString)]
+    .filter((prefix): prefix is string => !!prefix);
+  return {
+    id,
+    name: asString(subnet.name) ?? lastPathSegment(id),
+    networkId: networkId ?? azureNetworkId(id),
+    cidr: prefixes.find(prefix => !prefix.includes(':')),
+    ipv6Cidr: prefixes.find(prefix => prefix.includes(':')),
+    tags: [],
+    secondaryRanges: []
+  };
+};
+
+// az network vnet list
+const readAzureVirtualNetwork = (vnet: JsonObject): { network: CloudNetwork; subnets: CloudSubnet[] } => {
+  const id = asString(vnet.id) ?? asString(vnet.name) ?? 'vnet';
+  const addressSpace = isObject(vnet.addressSpace) ? vnet.addressSpace : {};
+  return {
+    network: {
+      id,
+      name: asString(vnet.name) ?? lastPathSegment(id),
+      cidrBlocks: asArray(addressSpace.addressPrefixes).flatMap(prefix => asString(prefix) ?? [])
+    },
+    subnets: asArray(vnet.subnets).filter(isObject).map(subnet => readAzureSubnet(subnet, id))
+  };
+};
+
+// gcloud compute networks subnets list --format=json
+const readGcpSubnet = (subnet: JsonObject): CloudSubnet => {
+  const id = asString(subnet.selfLink) ?? asString(subnet.name) ?? 'subnet';
+  const network = asString(subnet.network) ?? '';
+  return {
+    id,
+    name: asString(subnet.name) ?? lastPathSegment(id),
+    networkId: lastPathSegment(network),
+    cidr: asString(subnet.ipCidrRange),
+    ipv6Cidr: asString(subnet.ipv6CidrRange) ?? asString(subnet.externalIpv6Prefix) ?? asString(subnet.internalIpv6Prefix),
+    availabilityZone: asString(subnet.region) && lastPathSegment(subnet.region as string),
+    description: asString(subnet.description),
+    tags: [],
+    secondaryRanges: asArray(subnet.secondaryIpRanges)
+      .filter(isObject)
+      .flatMap(range => asString(range.ipCidrRange) ? [`${range.rangeName ?? 'secondary'} ${range.ipCidrRange}`] : [])
+  };
+};
+
+// Work out which listing a JSON document is and read it
+const readDocument = (
+  document: unknown
+): { provider: CloudInventory['provider']; networks: CloudNetwork[]; subnets: CloudSubnet[] } | null => {
+  if (isObject(document) && Array.isArray(document.Vpcs)) {
+    return { provider: 'aws', networks: readAwsVpcs(document.Vpcs), subnets: [] };
+  }
+  if (isObject(document) && Array.isArray(document.Subnets)) {
+    return { provider: 'aws', networks: [], subnets: readAwsSubnets(document.Subnets) };
+  }
+
+  // Azure and Google Cloud list commands print arrays; their show commands print a single object
+  const items = (Array.isArray(document) ? document : [document]).filter(isObject);
+  if (items.length === 0) return null;
+
+  if (items.every(item => isObject(item.addressSpace))) {
+    const vnets = items.map(readAzureVirtualNetwork);
+    return { provider: 'azure', networks: vnets.map(vnet => vnet.network), subnets: vnets.flatMap(vnet => vnet.subnets) };
+  }
+  if (items.every(item => 'addressPrefix' in item || 'addressPrefixes' in item)) {
+    return { provider: 'azure', networks: [], subnets: items.map(subnet => readAzureSubnet(subnet)) };
+  }
+  if (items.every(item => 'ipCidrRange' in item)) {
+    return { provider: 'gcp', networks: [], subnets: items.map(readGcpSubnet) };
+  }
+  return null;
+};
+
+// Read pasted or uploaded cloud CLI output: AWS describe-vpcs and describe-subnets, Azure vnet and
+// subnet lists, or Google Cloud subnet lists. Several documents from the same cloud can be combined.
+export function readCloudInventory(text: string): { inventory: CloudInventory } | { error: string } {
+  const documents = splitJsonDocuments(text);
+  if ('error' in documents) return documents;
+  if (documents.length === 0) {
+    return { error: 'Paste or choose the JSON output of a cloud CLI command' };
+  }
+
+  const inventory: CloudInventory = { provider: 'aws', networks: [], subnets: [] };
+  const providers = new Set<CloudInventory['provider']>();
+
+  for (const [index, content] of documents.entries()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return { error: `Document ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const result = readDocument(parsed);
+    if (!result) {
+      return {
+        error: `Document ${index + 1} is not the output of aws ec2 describe-vpcs or describe-subnets, az network vnet list or vnet subnet list, or gcloud compute networks subnets list`
+      };
+    }
+    providers.add(result.provider);
+    inventory.provider = result.provider;
+    inventory.networks.push(...result.networks);
+    inventory.subnets.push(...result.subnets);
+  }
+
+  if (providers.size > 1) {
+    return { error: 'The pasted documents come from more than one cloud; import one cloud at a time' };
+  }
+  if (inventory.subnets.length === 0 && inventory.networks.length === 0) {
+    return { error: 'The pasted output does not list any networks or subnets' };
+  }
+
+  // Networks known only from their subnets (e.g., describe-subnets without describe-vpcs)
+  for (const subnet of inventory.subnets) {
+    if (!inventory.networks.some(network => network.id === subnet.networkId)) {
+      inventory.networks.push({ id: subnet.networkId, name: lastPathSegment(subnet.networkId) || 'Unknown network', cidrBlocks: [] });
+    }
+  }
+  return { inventory };
+}
+
+// Pick the IPv4 base network ranges for a network's address blocks: the primary block is the base network
+// and the others become secondary ranges, in the order the provider lists them. Blocks aren't merged into
+// a covering block (10.0.0.0/16 and 10.1.0.0/16 are not a 10.0.0.0/15), since the provider may not allow
+// a network that large.
+const chooseBaseNetworks = (cidrBlocks: string[], subnetCidrs: string[]): { baseNetworks: string[]; warnings: string[] } => {
+  if (cidrBlocks.length === 0) {
+    const baseNetwork = coveringCidr(subnetCidrs);
+    return { baseNetworks: [baseNetwork], warnings: [`No network address space was included, so the base network ${baseNetwork} covers every subnet`] };
+  }
+
+  // Blocks overlapping an earlier block can't be ranges of the same base network
+  const baseNetworks: string[] = [];
+  const warnings: string[] = [];
+  for (const cidr of cidrBlocks) {
+    if (validateBaseNetworks([...baseNetworks, cidr]).length === 0) {
+      baseNetworks.push(cidr);
+    } else {
+      warnings.push(`The address block ${cidr} overlaps another block of the network, so it is not planned`);
+    }
+  }
+  return { baseNetworks, warnings };
+};
+
+// Build a plan for one network, with every subnet as a locked network segment
+export function planFromCloudInventory(inventory: CloudInventory, networkId: string): { plan: NetworkPlan; warnings: string[] } | { error: string } {
+  const network = inventory.networks.find(candidate => candidate.id === networkId);
+  if (!network) {
+    return { error: 'Choose a network to import' };
+  }
+
+  const validBlocks = network.cidrBlocks.filter(cidr => isValidCidr(cidr) && isCidrAligned(cidr));
+  const ipv4Blocks = validBlocks.filter(cidr => getIpVersion(cidr) === 4);
+  const ipv6Blocks = validBlocks.filter(cidr => getIpVersion(cidr) === 6);
+  const subnets = inventory.subnets.filter(subnet => subnet.networkId === network.id);
+  const warnings: string[] = [];
+
+  const ipv4Subnets = subnets.filter(subnet => subnet.cidr && isValidCidr(subnet.cidr) && getIpVersion(subnet.cidr) === 4);
+  const ipv6OnlySubnets = subnets.filter(subnet => !ipv4Subnets.includes(subnet));
+  if (ipv4Blocks.length === 0 && ipv4Subnets.length === 0) {
+    return { error: `${network.name} has no IPv4 address space or subnets to import` };
+  }
+
+  const base = chooseBaseNetworks(ipv4Blocks, ipv4Subnets.map(subnet => subnet.cidr!));
+  warnings.push(...base.warnings);
+  for (const subnet of ipv6OnlySubnets) {
+    warnings.push(`Subnet ${subnet.name} has no IPv4 CIDR and was not imported`);
+  }
+
+  const baseNetworkIpv6 = ipv6Blocks[0];
+  const networkSegments: NetworkSegmentPlan[] = [];
+  for (const subnet of ipv4Subnets) {
+    const cidr = subnet.cidr!;
+    if (!isCidrAligned(cidr) || !baseNetworkContaining(base.baseNetworks, cidr)) {
+      warnings.push(`Subnet ${subnet.name} (${cidr}) is outside ${base.baseNetworks.length > 1 ? `the base network ranges ${base.baseNetworks.join(', ')}` : `the base network ${base.baseNetworks[0]}`} and was not imported`);
+      continue;
+    }
+    if (subnet.secondaryRanges.length > 0) {
+      warnings.push(`Secondary ranges of subnet ${subnet.name} (${subnet.secondaryRanges.join(', ')}) were not imported`);
+    }
+
+    const ipv6Cidr = subnet.ipv6Cidr && baseNetworkIpv6 && isValidCidr(subnet.ipv6Cidr)
+      && cidrRangeContains(parseCidrRange(baseNetworkIpv6), parseCidrRange(subnet.ipv6Cidr))
+      ? subnet.ipv6Cidr
+      : undefined;
+    if (subnet.ipv6Cidr && !ipv6Cidr) {
+      warnings.push(baseNetworkIpv6
+        ? `The IPv6 block ${subnet.ipv6Cidr} of subnet ${subnet.name} is outside the network's IPv6 block ${baseNetworkIpv6} and was not imported`
+        : `The IPv6 block ${subnet.ipv6Cidr} of subnet ${subnet.name} was not imported, since the network has no IPv6 block`);
+    }
+
+    networkSegments.push({
+      ...createNetworkSegmentFromCidr(cidr, networkSegments.length + 1),
+      name: subnet.name,
+      description: subnet.description,
+      ipv6Cidr,
+      availabilityZone: subnet.availabilityZone,
+      tags: subnet.tags.length > 0 ? subnet.tags : undefined,
+      cloudResourceId: subnet.id,
+      locked: true
+    });
+  }
+
+  const profile = getCloudProviderProfile(inventory.provider);
+  return {
+    plan: {
+      baseNetwork: base.baseNetworks[0],
+      secondaryBaseNetworks: base.baseNetworks.length > 1 ? base.baseNetworks.slice(1) : undefined,
+      baseNetworkIpv6,
+      provider: inventory.provider,
+      networkSegments: applyAddressReservation(networkSegments, version => profile.reservation[version])
+    },
+    warnings
+  };
+}
@@ -0,0 +1,99 @@
+import { baseNetworkContaining, getIpVersion, leafNetworkSegments, planBaseNetworks } from './subnet-utils';
+import type { NetworkPlan } from './subnet-utils';
+import { toPascalName, uniqueIdentifiers } from './export-utils';
+
+// Quote a scalar for YAML (JSON strings are valid double-quoted YAML scalars)
+const yamlString = (value: string): string => JSON.stringify(value);
+
+// Render a Tags list
+const yamlTags = (tags: Array<[key: string, value: string]>, indent: string): string[] => {
+  return [
+    `${indent}Tags:`,
+    ...tags.flatMap(([key, value]) => [`${indent}  - Key: ${key}`, `${indent}    Value: ${yamlString(value)}`]),
+  ];
+};
+
+// Generate a CloudFormation YAML template with an AWS::EC2::VPC and one AWS::EC2::Subnet per network segment.
+// Secondary base network ranges become AWS::EC2::VPCCidrBlock resources.
+export function generateCloudFormation(plan: NetworkPlan, vpcName = 'main'): string {
+  const isIpv6Only = getIpVersion(plan.baseNetwork) === 6;
+  const ipv6Block = isIpv6Only ? plan.baseNetwork : plan.baseNetworkIpv6;
+  const baseNetworks = planBaseNetworks(plan);
+  const lines: string[] = [
+    '# Generated by IP Network Planner',
+    'AWSTemplateFormatVersion: "2010-09-09"',
+    `Description: ${yamlString(`Network plan for ${baseNetworks.join(', ')}`)}`,
+    'Resources:',
+    '  Vpc:',
+    '    Type: AWS::EC2::VPC',
+    '    Properties:',
+  ];
+
+  if (isIpv6Only) {
+    lines.push('      # AWS VPCs need a primary IPv4 CIDR: add CidrBlock before deploying');
+  } else {
+    lines.push(`      CidrBlock: ${yamlString(plan.baseNetwork)}`);
+  }
+  lines.push('      EnableDnsSupport: true', '      EnableDnsHostnames: true', ...yamlTags([['Name', vpcName]], '      '));
+
+  if (ipv6Block) {
+    lines.push(
+      '  VpcIpv6CidrBlock:',
+      '    Type: AWS::EC2::VPCCidrBlock',
+      '    Properties:',
+      '      VpcId: !Ref Vpc',
+      `      Ipv6CidrBlock: ${yamlString(ipv6Block)}`,
+    );
+  }
+
+  const cidrBlockIds = new Map<string, string>();
+  baseNetworks.slice(1).forEach((cidr, index) => {
+    const logicalId = `VpcSecondaryCidrBlock${index + 1}`;
+    cidrBlockIds.set(cidr, logicalId);
+    lines.push(
+      `  ${logicalId}:`,
+      '    Type: AWS::EC2::VPCCidrBlock',
+      '    Properties:',
+      '      VpcId: !Ref Vpc',
+      `      ${isIpv6Only ? 'Ipv6CidrBlock' : 'CidrBlock'}: ${yamlString(cidr)}`,
+    );
+  });
+
+  // Parent network segments are only address space; their leaf segments become subnets
+  const subnetSegments = leafNetworkSegments(plan.networkSegments);
+  const logicalIds = uniqueIdentifiers(subnetSegments.map(segment => segment.name), name => `${toPascalName(name, 'Segment')}Subnet`, '');
+  subnetSegments.forEach((segment, index) => {
+    lines.push(`  ${logicalIds[index]}:`, '    Type: AWS::EC2::Subnet');
+    const dependencies = ipv6Block ? ['VpcIpv6CidrBlock'] : [];
+    const cidrBlockId = cidrBlockIds.get(baseNetworkContaining(baseNetworks, segment.cidr) ?? '');
+    if (cidrBlockId) {
+      dependencies.push(cidrBlockId);
+    }
+    if (dependencies.length === 1) {
+      lines.push(`    DependsOn: ${dependencies[0]}`);
+    } else if (dependencies.length > 1) {
+      lines.push(`    DependsOn: [${dependencies.join(', ')}]`);
+    }
+    lines.push('    Properties:', '      VpcId: !Ref Vpc');
+
+    if (isIpv6Only) {
+      lines.push(`      Ipv6CidrBlock: ${yamlString(segment.cidr)}`, '      Ipv6Native: true', '      AssignIpv6AddressOnCreation: true');
+    } else {
+      lines.push(`      CidrBlock: ${yamlString(segment.cidr)}`);
+      if (segment.ipv6Cidr) {
+        lines.push(`      Ipv6CidrBlock: ${yamlString(segment.ipv6Cidr)}`);
+      }
+    }
+    if (segment.availabilityZone) {
+      lines.push(`      AvailabilityZone: ${yamlString(segment.availabilityZone)}`);
+    }
+
+    const tags: Array<[string, string]> = [['Name', segment.name]];
+    if (segment.description) {
+      tags.push(['Description', segment.description]);
+    }
+    lines.push(...yamlTags(tags, '      '));
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,194 @@
+import { bigIntToIp, getIpVersion, ipToBigInt, isValidIpAddress, leafNetworkSegments } from './subnet-utils';
+import type { NetworkPlan, NetworkSegmentPlan } from './subnet-utils';
+import { parseHostReservationAddress, unreservedHostRanges, usableHostRange } from './host-reservations';
+import type { AddressRange } from './host-reservations';
+import { toKebabName, uniqueIdentifiers } from './export-utils';
+
+export const DEFAULT_LEASE_TIME = 86400; // One day, in seconds
+
+// One DHCP subnet resolved from a network segment, with every default filled in
+export interface DhcpSubnet {
+  segment: NetworkSegmentPlan;
+  pool: { start: string; end: string } | null; // null when no usable address is left for a pool
+  gateway: string;
+  dnsServers: string[];
+  leaseTime: number;
+  staticLeases: Array<{ address: string; mac: string; hostname: string }>;
+}
+
+// Address range of a single address
+const singleAddress = (address: string): AddressRange => ({ version: getIpVersion(address), start: ipToBigInt(address), end: ipToBigInt(address) });
+
+// Gateway of a segment: the configured one, or the first usable address
+const segmentGateway = (segment: NetworkSegmentPlan): string => segment.dhcp?.gateway || segment.firstHost;
+
+// Largest run of usable addresses that neither the gateway nor a host reservation takes
+export function defaultDhcpPool(segment: NetworkSegmentPlan): { start: string; end: string } | null {
+  const gateway = segmentGateway(segment);
+  const exclude = isValidIpAddress(gateway) ? [singleAddress(gateway)] : [];
+  const largest = unreservedHostRanges(segment, exclude)
+    .reduce<AddressRange | null>((best, range) => !best || range.end - range.start > best.end - best.start ? range : best, null);
+  return largest && { start: bigIntToIp(largest.start, largest.version), end: bigIntToIp(largest.end, largest.version) };
+}
+
+// DHCP serves IPv4 subnets; only leaf segments become subnets
+export function dhcpSegments(plan: NetworkPlan): NetworkSegmentPlan[] {
+  return leafNetworkSegments(plan.networkSegments).filter(segment => getIpVersion(segment.cidr) === 4);
+}
+
+// Resolve a segment's DHCP settings, filling in defaults. Reservations of a single address with a
+// MAC address become static leases; ranges and reservations without a MAC only stay out of the pool.
+export function resolveDhcpSubnet(segment: NetworkSegmentPlan): DhcpSubnet {
+  const { dhcp } = segment;
+  const hostnames = uniqueIdentifiers(
+    (segment.hostReservations ?? []).map(reservation => reservation.name),
+    name => toKebabName(name, 'host'),
+    '-'
+  );
+  return {
+    segment,
+    pool: dhcp?.poolStart && dhcp.poolEnd ? { start: dhcp.poolStart, end: dhcp.poolEnd } : defaultDhcpPool(segment),
+    gateway: segmentGateway(segment),
+    dnsServers: dhcp?.dnsServers ?? [],
+    leaseTime: dhcp?.leaseTime ?? DEFAULT_LEASE_TIME,
+    staticLeases: (segment.hostReservations ?? []).flatMap((reservation, index) => {
+      const range = parseHostReservationAddress(reservation.address);
+      return range && range.start === range.end && reservation.mac
+        ? [{ address: reservation.address, mac: reservation.mac.toLowerCase().replace(/-/g, ':'), hostname: hostnames[index] }]
+        : [];
+    })
+  };
+}
+
+// Check a segment's DHCP settings: addresses inside the usable range, and a pool that stays clear of
+// the gateway and every host reservation
+export function validateDhcpSettings(segment: NetworkSegmentPlan): string[] {
+  const { dhcp } = segment;
+  if (!dhcp || getIpVersion(segment.cidr) !== 4) return [];
+
+  const errors: string[] = [];
+  const label = `DHCP for "${segment.name}"`;
+  const usable = usableHostRange(segment);
+  const inUsableRange = (address: string) => {
+    const value = ipToBigInt(address);
+    return !!usable && value >= usable.start && value <= usable.end;
+  };
+
+  if (dhcp.gateway !== undefined) {
+    if (!isValidIpAddress(dhcp.gateway)) {
+      errors.push(`${label}: gateway "${dhcp.gateway}" is not an IPv4 address`);
+    } else if (!inUsableRange(dhcp.gateway)) {
+      errors.push(`${label}: gateway ${dhcp.gateway} is outside the usable range ${segment.firstHost} - ${segment.lastHost}`);
+    }
+  }
+
+  for (const server of dhcp.dnsServers ?? []) {
+    if (!isValidIpAddress(server)) {
+      errors.push(`${label}: DNS server "${server}" is not an IPv4 address`);
+    }
+  }
+
+  if (dhcp.leaseTime !== undefined && (!Number.isInteger(dhcp.leaseTime) || dhcp.leaseTime <= 0)) {
+    errors.push(`${label}: lease time must be a whole number of seconds`);
+  }
+
+  if ((dhcp.poolStart === undefined) !== (dhcp.poolEnd === undefined)) {
+    errors.push(`${label}: set both the first and last address of the pool, or neither`);
+  } else if (dhcp.poolStart !== undefined && dhcp.poolEnd !== undefined) {
+    const addressErrors = [dhcp.poolStart, dhcp.poolEnd]
+      .filter(address => !isValidIpAddress(address) || !inUsableRange(address))
+      .map(address => isValidIpAddress(address)
+        ? `${label}: pool address ${address} is outside the usable range ${segment.firstHost} - ${segment.lastHost}`
+        : `${label}: pool address "${address}" is not an IPv4 address`);
+    errors.push(...addressErrors);
+
+    if (addressErrors.length === 0) {
+      const pool = { version: 4 as const, start: ipToBigInt(dhcp.poolStart), end: ipToBigInt(dhcp.poolEnd) };
+      const overlaps = (range: AddressRange) => range.start <= pool.end && pool.start <= range.end;
+      if (pool.end < pool.start) {
+        errors.push(`${label}: the pool ends at ${dhcp.poolEnd}, before it starts at ${dhcp.poolStart}`);
+      } else {
+        const gateway = segmentGateway(segment);
+        if (isValidIpAddress(gateway) && overlaps(singleAddress(gateway))) {
+          errors.push(`${label}: the pool ${dhcp.poolStart} - ${dhcp.poolEnd} includes the gateway ${gateway}`);
+        }
+        for (const reservation of segment.hostReservations ?? []) {
+          const range = parseHostReservationAddress(reservation.address);
+          if (range && overlaps(range)) {
+            errors.push(`${label}: the pool ${dhcp.poolStart} - ${dhcp.poolEnd} includes ${reservation.address}, reserved for ${reservation.name ? `"${reservation.name}"` : 'a host'}`);
+          }
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Generate an ISC Kea DHCPv4 server configuration with one subnet4 entry per IPv4 network segment
+export function generateKeaConfig(plan: NetworkPlan): string {
+  const subnet4 = dhcpSegments(plan).map((segment, index) => {
+    const subnet = resolveDhcpSubnet(segment);
+    const optionData = [{ name: 'routers', data: subnet.gateway }];
+    if (subnet.dnsServers.length > 0) {
+      optionData.push({ name: 'domain-name-servers', data: subnet.dnsServers.join(', ') });
+    }
+
+    return {
+      id: index + 1,
+      subnet: segment.cidr,
+      'user-context': { name: segment.name, ...(segment.description ? { description: segment.description } : {}) },
+      pools: subnet.pool ? [{ pool: `${subnet.pool.start} - ${subnet.pool.end}` }] : [],
+      'option-data': optionData,
+      'valid-lifetime': subnet.leaseTime,
+      reservations: subnet.staticLeases.map(lease => ({ 'hw-address': lease.mac, 'ip-address': lease.address, hostname: lease.hostname }))
+    };
+  });
+
+  return JSON.stringify({
+    Dhcp4: {
+      'interfaces-config': { interfaces: ['*'] },
+      'lease-database': { type: 'memfile', persist: true, name: '/var/lib/kea/kea-leases4.csv' },
+      'valid-lifetime': DEFAULT_LEASE_TIME,
+      subnet4
+    }
+  }, null, 2);
+}
+
+// dnsmasq lease time: hours or minutes when they divide evenly, otherwise seconds
+const dnsmasqLeaseTime = (seconds: number): string => {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return seconds.toString();
+};
+
+// Generate a dnsmasq configuration with a tagged dhcp-range per IPv4 network segment
+export function generateDnsmasqConfig(plan: NetworkPlan): string {
+  const segments = dhcpSegments(plan);
+  const tags = uniqueIdentifiers(segments.map(segment => segment.name), name => toKebabName(name, 'subnet'), '-');
+  const lines: string[] = ['# Generated by IP Network Planner'];
+
+  if (segments.length === 0) {
+    lines.push('# The plan has no IPv4 network segments to serve');
+  }
+
+  segments.forEach((segment, index) => {
+    const subnet = resolveDhcpSubnet(segment);
+    const tag = tags[index];
+    lines.push('', `# ${segment.name} (${segment.cidr})${segment.description ? ` - ${segment.description}` : ''}`);
+    if (subnet.pool) {
+      lines.push(`dhcp-range=set:${tag},${subnet.pool.start},${subnet.pool.end},${segment.subnetMask},${dnsmasqLeaseTime(subnet.leaseTime)}`);
+    } else {
+      lines.push(`# No free addresses are left for a pool in ${segment.cidr}`);
+    }
+    lines.push(`dhcp-option=tag:${tag},option:router,${subnet.gateway}`);
+    if (subnet.dnsServers.length > 0) {
+      lines.push(`dhcp-option=tag:${tag},option:dns-server,${subnet.dnsServers.join(',')}`);
+    }
+    for (const lease of subnet.staticLeases) {
+      lines.push(`dhcp-host=${lease.mac},${lease.address},${lease.hostname}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,187 @@
+import { addressBits, bigIntToIp, leafNetworkSegments, parseCidrRange } from './subnet-utils';
+import type { IpVersion, NetworkPlan, NetworkSegmentPlan } from './subnet-utils';
+import { parseHostReservationAddress } from './host-reservations';
+import { csvCell, toKebabName, uniqueIdentifiers } from './export-utils';
+
+// Forward zone used when the plan has no DNS domain
+export const DEFAULT_DNS_DOMAIN = 'example.internal';
+
+const DNS_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+// A reverse lookup zone covering all or part of a network segment
+export interface ReverseZone {
+  name: string; // e.g., 1.0.10.in-addr.arpa, or 0/26.1.0.10.in-addr.arpa for RFC 2317 classless delegation
+  cidr: string; // Block the zone covers
+  delegatedFrom?: string; // Parent /24 zone that delegates a classless zone with NS and CNAME records
+}
+
+export interface DnsRecord {
+  segment: string; // Name of the network segment the host is reserved in
+  zone: string;
+  name: string; // Owner name relative to the zone
+  type: 'A' | 'AAAA' | 'PTR' | 'CNAME';
+  value: string;
+}
+
+// Check a DNS domain name (e.g., corp.example.com), returning the problem or null
+export function validateDnsDomain(domain: string): string | null {
+  const name = domain.replace(/\.$/, '');
+  if (name.length > 253) {
+    return `DNS domain "${domain}" is longer than 253 characters`;
+  }
+  if (!name.split('.').every(label => DNS_LABEL.test(label))) {
+    return `DNS domain "${domain}" is not a valid domain name (e.g., corp.example.com)`;
+  }
+  return null;
+}
+
+// Forward zone of a plan, lowercase and without the trailing dot
+export function planDnsDomain(plan: NetworkPlan): string {
+  return (plan.dnsDomain || DEFAULT_DNS_DOMAIN).replace(/\.$/, '').toLowerCase();
+}
+
+// Reverse DNS labels of an address, most significant first: octets for IPv4, nibbles for IPv6
+const addressLabels = (address: bigint, version: IpVersion): string[] => {
+  return version === 4
+    ? [24, 16, 8, 0].map(shift => ((address >> BigInt(shift)) & 255n).toString())
+    : address.toString(16).padStart(32, '0').split('');
+};
+
+// Reverse zones of a block. Blocks are split on octet (IPv4) or nibble (IPv6) boundaries, so a /20
+// gets sixteen /24 zones; IPv4 blocks smaller than a /24 get one RFC 2317 classless zone.
+export function reverseZones(cidr: string): ReverseZone[] {
+  const { version, start, size } = parseCidrRange(cidr);
+  const labels = addressLabels(start, version);
+
+  if (version === 4 && size > 24) {
+    const parent = `${labels.slice(0, 3).reverse().join('.')}.in-addr.arpa`;
+    return [{ name: `${labels[3]}/${size}.${parent}`, cidr, delegatedFrom: parent }];
+  }
+
+  const labelBits = version === 4 ? 8 : 4;
+  const suffix = version === 4 ? 'in-addr.arpa' : 'ip6.arpa';
+  const zoneSize = Math.max(labelBits, Math.ceil(size / labelBits) * labelBits);
+  const count = 1 << (zoneSize - size);
+  const step = 1n << BigInt(addressBits(version) - zoneSize);
+
+  return Array.from({ length: count }, (_, index) => {
+    const zoneStart = start + BigInt(index) * step;
+    const zoneLabels = addressLabels(zoneStart, version).slice(0, zoneSize / labelBits);
+    return { name: `${zoneLabels.reverse().join('.')}.${suffix}`, cidr: `${bigIntToIp(zoneStart, version)}/${zoneSize}` };
+  });
+}
+
+// One-line summary of a block's reverse zones, e.g. 0.16.10.in-addr.arpa … 15.16.10.in-addr.arpa (16 zones)
+export function describeReverseZones(cidr: string): string {
+  const zones = reverseZones(cidr);
+  const [first] = zones;
+  if (first.delegatedFrom) return `${first.name} (RFC 2317, delegated from ${first.delegatedFrom})`;
+  return zones.length === 1 ? first.name : `${first.name} … ${zones[zones.length - 1].name} (${zones.length} zones)`;
+}
+
+// Reverse zones of a network segment, including those of its paired IPv6 block
+export function segmentReverseZones(segment: NetworkSegmentPlan): ReverseZone[] {
+  return [...reverseZones(segment.cidr), ...(segment.ipv6Cidr ? reverseZones(segment.ipv6Cidr) : [])];
+}
+
+// A, AAAA, PTR and (for classless zones) CNAME records for every named single-address host reservation.
+// Host names are unique across the plan, since they share one forward zone.
+export function dnsRecords(plan: NetworkPlan): DnsRecord[] {
+  const domain = planDnsDomain(plan);
+  const hosts = leafNetworkSegments(plan.networkSegments).flatMap(segment => (segment.hostReservations ?? []).flatMap(reservation => {
+    const range = parseHostReservationAddress(reservation.address);
+    const zone = range && range.start === range.end && reservation.name.trim()
+      ? reverseZones(segment.cidr).find(candidate => {
+        const block = parseCidrRange(candidate.cidr);
+        return block.version === range.version && range.start >= block.start && range.end <= block.end;
+      })
+      : undefined;
+    return range && zone ? [{ segment, name: reservation.name, address: range.start, version: range.version, zone }] : [];
+  }));
+  const hostnames = uniqueIdentifiers(hosts.map(host => host.name), name => toKebabName(name, 'host'), '-');
+
+  return hosts.flatMap((host, index) => {
+    const fqdn = `${hostnames[index]}.${domain}.`;
+    const labels = addressLabels(host.address, host.version);
+    const records: DnsRecord[] = [{
+      segment: host.segment.name,
+      zone: domain,
+      name: hostnames[index],
+      type: host.version === 4 ? 'A' : 'AAAA',
+      value: bigIntToIp(host.address, host.version)
+    }];
+
+    if (host.zone.delegatedFrom) {
+      const lastOctet = labels[3];
+      records.push(
+        { segment: host.segment.name, zone: host.zone.name, name: lastOctet, type: 'PTR', value: fqdn },
+        { segment: host.segment.name, zone: host.zone.delegatedFrom, name: lastOctet, type: 'CNAME', value: `${lastOctet}.${host.zone.name}.` }
+      );
+    } else {
+      const zoneLabelCount = parseCidrRange(host.zone.cidr).size / (host.version === 4 ? 8 : 4);
+      records.push({ segment: host.segment.name, zone: host.zone.name, name: labels.slice(zoneLabelCount).reverse().join('.'), type: 'PTR', value: fqdn });
+    }
+    return records;
+  });
+}
+
+// Start of a BIND zone file, with SOA and NS records pointing at ns1 in the forward zone
+const zoneFileHeader = (origin: string, domain: string, serial: string): string[] => [
+  `$ORIGIN ${origin}.`,
+  '$TTL 3600',
+  `@\tIN\tSOA\tns1.${domain}. hostmaster.${domain}. (`,
+  `\t\t${serial}\t; serial`,
+  '\t\t3600\t\t; refresh',
+  '\t\t900\t\t; retry',
+  '\t\t1209600\t\t; expire',
+  '\t\t3600 )\t\t; negative caching TTL',
+  `@\tIN\tNS\tns1.${domain}.`
+];
+
+// Generate BIND zone files: the forward zone followed by every segment's reverse zones, one section per zone
+export function generateBindZones(plan: NetworkPlan): string {
+  const domain = planDnsDomain(plan);
+  const records = dnsRecords(plan);
+  const serial = `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}01`;
+  const recordLines = (zone: string) => records
+    .filter(record => record.zone === zone && record.type !== 'CNAME')
+    .map(record => `${record.name}\tIN\t${record.type}\t${record.value}`);
+
+  const lines: string[] = [
+    '; Generated by IP Network Planner',
+    '; Each section is one zone: save it as its own zone file and list it in named.conf.',
+    `; SOA and NS records name ns1.${domain} as the primary name server; adjust them to yours.`,
+    '',
+    `; ==== ${domain} (forward zone) ====`,
+    ...zoneFileHeader(domain, domain, serial),
+    ...recordLines(domain)
+  ];
+
+  const emitted = new Set<string>();
+  for (const segment of leafNetworkSegments(plan.networkSegments)) {
+    for (const zone of segmentReverseZones(segment)) {
+      if (emitted.has(zone.name)) continue;
+      emitted.add(zone.name);
+
+      lines.push('', `; ==== ${zone.name}: ${segment.name} (${zone.cidr}) ====`);
+      if (zone.delegatedFrom) {
+        const { start, end } = parseCidrRange(zone.cidr);
+        const [first, last] = [start, end].map(address => addressLabels(address, 4)[3]);
+        lines.push(
+          `; RFC 2317 classless delegation: add these records to the parent zone ${zone.delegatedFrom}`,
+          `;   ${zone.name.slice(0, -zone.delegatedFrom.length - 1)}\tIN\tNS\tns1.${domain}.`,
+          `;   $GENERATE ${first}-${last} $ IN CNAME $.${zone.name}.`
+        );
+      }
+      lines.push(...zoneFileHeader(zone.name, domain, serial), ...recordLines(zone.name));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Generate a CSV file with one row per DNS record, including the CNAMEs parent zones need for classless delegation
+export function generateDnsCsv(plan: NetworkPlan): string {
+  const rows = dnsRecords(plan).map(record => [record.zone, record.name, record.type, record.value, record.segment]);
+  return [['Zone', 'Name', 'Type', 'Value', 'Network Segment'], ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,38 @@
+// Give every name a unique identifier, suffixing repeats (e.g., subnet, subnet_2, subnet_3)
+export function uniqueIdentifiers(
+  names: string[],
+  toIdentifier: (name: string) => string,
+  separator = '_'
+): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = toIdentifier(name);
+    let identifier = base;
+    for (let suffix = 2; used.has(identifier); suffix++) {
+      identifier = `${base}${separator}${suffix}`;
+    }
+    used.add(identifier);
+    return identifier;
+  });
+}
+
+// Split a name into lowercase alphanumeric words
+const words = (name: string): string[] => name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Turn a name into a kebab-case resource name (e.g., "Public AZ-1" -> "public-az-1")
+export function toKebabName(name: string, fallback: string, maxLength = 63): string {
+  const kebab = words(name).join('-');
+  const prefixed = /^[a-z]/.test(kebab) ? kebab : kebab ? `${fallback}-${kebab}` : fallback;
+  return prefixed.slice(0, maxLength).replace(/-+$/, '');
+}
+
+// Turn a name into a PascalCase identifier (e.g., "Public AZ-1" -> "PublicAz1")
+export function toPascalName(name: string, fallback: string): string {
+  const pascal = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `${fallback}${pascal}`;
+}
+
+// Quote a CSV cell when it contains the delimiter, quotes, line breaks or surrounding spaces
+export function csvCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
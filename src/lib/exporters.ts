@@ -0,0 +1,140 @@
+import type { NetworkPlan } from './subnet-utils';
+import { generateAwsTerraform, generateGcpTerraform } from './terraform-export';
+import { generateCloudFormation } from './cloudformation-export';
+import { generateBicep } from './bicep-export';
+import { serializePlan } from './plan-schema';
+import { generateSegmentCsv } from './segment-csv';
+import { generateDnsmasqConfig, generateKeaConfig } from './dhcp-export';
+import { generateBindZones, generateDnsCsv } from './dns-export';
+
+export interface PlanExporter {
+  id: string;
+  name: string;
+  description: string;
+  extension: string; // Including the dot, e.g. '.tf'
+  filePrefix: string; // Download filename prefix; a timestamp and the extension are appended
+  mimeType: string;
+  generate: (plan: NetworkPlan) => string;
+}
+
+const exporters: PlanExporter[] = [];
+
+// Register an export format; formats appear in registration order
+export function registerExporter(exporter: PlanExporter): void {
+  const existing = exporters.findIndex(registered => registered.id === exporter.id);
+  if (existing >= 0) {
+    exporters[existing] = exporter;
+  } else {
+    exporters.push(exporter);
+  }
+}
+
+// Get all registered export formats
+export function getExporters(): PlanExporter[] {
+  return [...exporters];
+}
+
+// Get an export format by ID
+export function getExporter(id: string): PlanExporter | undefined {
+  return exporters.find(exporter => exporter.id === id);
+}
+
+registerExporter({
+  id: 'json',
+  name: 'JSON Configuration',
+  description: 'IP Network Planner configuration that can be imported again',
+  extension: '.json',
+  filePrefix: 'ip-network-config',
+  mimeType: 'application/json',
+  generate: (plan) => serializePlan(plan),
+});
+
+registerExporter({
+  id: 'csv',
+  name: 'CSV Spreadsheet',
+  description: 'One row per network segment; can be imported again with Import CSV',
+  extension: '.csv',
+  filePrefix: 'ip-network-segments',
+  mimeType: 'text/csv',
+  generate: (plan) => generateSegmentCsv(plan),
+});
+
+registerExporter({
+  id: 'terraform-aws',
+  name: 'Terraform (AWS)',
+  description: 'aws_vpc and aws_subnet resources',
+  extension: '.tf',
+  filePrefix: 'ip-network-aws',
+  mimeType: 'text/plain',
+  generate: (plan) => generateAwsTerraform(plan),
+});
+
+registerExporter({
+  id: 'cloudformation',
+  name: 'AWS CloudFormation',
+  description: 'AWS::EC2::VPC and AWS::EC2::Subnet template (YAML)',
+  extension: '.yaml',
+  filePrefix: 'ip-network-cloudformation',
+  mimeType: 'application/yaml',
+  generate: (plan) => generateCloudFormation(plan),
+});
+
+registerExporter({
+  id: 'bicep',
+  name: 'Azure Bicep',
+  description: 'Microsoft.Network/virtualNetworks with subnets',
+  extension: '.bicep',
+  filePrefix: 'ip-network-azure',
+  mimeType: 'text/plain',
+  generate: (plan) => generateBicep(plan),
+});
+
+registerExporter({
+  id: 'terraform-gcp',
+  name: 'Terraform (GCP)',
+  description: 'google_compute_network and google_compute_subnetwork resources',
+  extension: '.tf',
+  filePrefix: 'ip-network-gcp',
+  mimeType: 'text/plain',
+  generate: (plan) => generateGcpTerraform(plan),
+});
+
+registerExporter({
+  id: 'kea',
+  name: 'ISC Kea DHCP',
+  description: 'Dhcp4 subnets with pools, options and static reservations',
+  extension: '.json',
+  filePrefix: 'ip-network-kea',
+  mimeType: 'application/json',
+  generate: (plan) => generateKeaConfig(plan),
+});
+
+registerExporter({
+  id: 'dnsmasq',
+  name: 'dnsmasq DHCP',
+  description: 'Tagged dhcp-range, dhcp-option and dhcp-host lines',
+  extension: '.conf',
+  filePrefix: 'ip-network-dnsmasq',
+  mimeType: 'text/plain',
+  generate: (plan) => generateDnsmasqConfig(plan),
+});
+
+registerExporter({
+  id: 'bind',
+  name: 'BIND Zone Files',
+  description: 'Forward zone plus in-addr.arpa and ip6.arpa reverse zones, with RFC 2317 delegation for blocks smaller than /24',
+  extension: '.zone',
+  filePrefix: 'ip-network-dns',
+  mimeType: 'text/plain',
+  generate: (plan) => generateBindZones(plan),
+});
+
+registerExporter({
+  id: 'dns-csv',
+  name: 'DNS Records CSV',
+  description: 'One row per A, AAAA, PTR and delegation CNAME record',
+  extension: '.csv',
+  filePrefix: 'ip-network-dns-records',
+  mimeType: 'text/csv',
+  generate: (plan) => generateDnsCsv(plan),
+});
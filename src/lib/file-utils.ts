@@ -0,0 +1,50 @@
+export interface SaveFileType {
+  mimeType: string;
+  description: string;
+  extension: string; // Including the dot, e.g. '.json'
+}
+
+// Create a descriptive export filename (e.g., ip-network-config-2025-01-31-14-05-09.json)
+export function exportFilename(prefix: string, extension: string): string {
+  const dateStr = new Date().toISOString().split('T')[0];
+  const timeStr = new Date().toTimeString().split(' ')[0].replace(/:/g, '-');
+  return `${prefix}-${dateStr}-${timeStr}${extension}`;
+}
+
+// Save a file through the save dialog where supported, falling back to a download link
+export async function saveFile(content: string, filename: string, fileType: SaveFileType): Promise<void> {
+  const downloadFile = () => {
+    const blob = new Blob([content], { type: fileType.mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Try to use File System Access API for save dialog (modern browsers)
+  if ('showSaveFilePicker' in window) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const handle = await (window as Window & { showSaveFilePicker: any }).showSaveFilePicker({
+        suggestedName: filename,
+        types: [{
+          description: fileType.description,
+          accept: { [fileType.mimeType]: [fileType.extension] }
+        }]
+      });
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+    } catch {
+      // Fallback to traditional download if user cancels or API fails
+      downloadFile();
+    }
+  } else {
+    // Fallback for older browsers
+    downloadFile();
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  bigIntToIp,
+  getIpVersion,
+  ipToBigInt,
+  isValidIpAddress,
+  isValidIpv6Address,
+  parseCidrRange
+} from './subnet-utils';
+import type { CidrRange, HostReservation, NetworkSegmentPlan } from './subnet-utils';
+
+// An inclusive address range that need not be a CIDR block
+export type AddressRange = Omit<CidrRange, 'size'>;
+
+// MAC address with colon or hyphen separators, e.g. 02:42:ac:11:00:02
+const MAC_ADDRESS = /^[0-9a-f]{2}([:-])[0-9a-f]{2}(\1[0-9a-f]{2}){4}$/i;
+
+// Validate a single IPv4 or IPv6 address
+const isValidAddress = (ip: string): boolean => isValidIpAddress(ip) || isValidIpv6Address(ip);
+
+// Check two address ranges for overlap
+const rangesOverlap = (first: AddressRange, second: AddressRange): boolean => {
+  return first.version === second.version && first.start <= second.end && second.start <= first.end;
+};
+
+// Normalize a MAC address for comparison, e.g. 02-42-AC-11-00-02 → 02:42:ac:11:00:02
+const normalizeMac = (mac: string): string => mac.toLowerCase().replace(/-/g, ':');
+
+// Address range of a reservation, or null when it is not a valid address or ascending range
+export function parseHostReservationAddress(address: string): AddressRange | null {
+  const [first, last = first, ...rest] = address.split('-').map(part => part.trim());
+  if (rest.length > 0 || !isValidAddress(first) || !isValidAddress(last)) return null;
+
+  const version = getIpVersion(first);
+  if (getIpVersion(last) !== version) return null;
+  const start = ipToBigInt(first);
+  const end = ipToBigInt(last);
+  if (end < start) return null;
+  return { version, start, end };
+}
+
+// Addresses hosts may use in a network segment, after the provider's reserved addresses
+export function usableHostRange(segment: NetworkSegmentPlan): AddressRange | null {
+  if (segment.totalHosts <= 0) return null;
+  const { version } = parseCidrRange(segment.cidr);
+  return { version, start: ipToBigInt(segment.firstHost), end: ipToBigInt(segment.lastHost) };
+}
+
+// Name a reservation in messages: its name, or its address when unnamed
+const reservationLabel = (reservation: HostReservation): string => reservation.name ? `"${reservation.name}"` : reservation.address;
+
+// Check a segment's host reservations: valid addresses inside the usable range, valid MAC addresses,
+// and no address or MAC address handed out twice
+export function validateHostReservations(segment: NetworkSegmentPlan): string[] {
+  const errors: string[] = [];
+  const usable = usableHostRange(segment);
+  const checked: Array<{ reservation: HostReservation; range: AddressRange }> = [];
+  const macs = new Map<string, HostReservation>();
+
+  for (const reservation of segment.hostReservations ?? []) {
+    const label = `Host reservation ${reservationLabel(reservation)} in "${segment.name}"`;
+    const range = parseHostReservationAddress(reservation.address);
+    if (!reservation.address.trim()) {
+      errors.push(`${label} has no address`);
+    } else if (!range) {
+      errors.push(`${label}: "${reservation.address}" is not an IP address or ascending range (e.g., 10.0.1.10 or 10.0.1.10-10.0.1.20)`);
+    } else if (!usable || range.version !== usable.version || range.start < usable.start || range.end > usable.end) {
+      errors.push(usable
+        ? `${label}: ${reservation.address} is outside the usable range ${segment.firstHost} - ${segment.lastHost}`
+        : `${label}: ${segment.cidr} has no usable host addresses`);
+    } else {
+      const overlapping = checked.find(other => rangesOverlap(other.range, range));
+      if (overlapping) {
+        errors.push(`${label}: ${reservation.address} is already reserved for ${reservationLabel(overlapping.reservation)}`);
+      }
+      checked.push({ reservation, range });
+    }
+
+    if (reservation.mac) {
+      if (!MAC_ADDRESS.test(reservation.mac)) {
+        errors.push(`${label}: "${reservation.mac}" is not a MAC address (e.g., 02:42:ac:11:00:02)`);
+      } else {
+        const other = macs.get(normalizeMac(reservation.mac));
+        if (other) {
+          errors.push(`${label}: MAC address ${reservation.mac} is already used by ${reservationLabel(other)}`);
+        } else {
+          macs.set(normalizeMac(reservation.mac), reservation);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Address ranges of a segment's valid reservations
+const reservationRanges = (segment: NetworkSegmentPlan): AddressRange[] => {
+  return (segment.hostReservations ?? [])
+    .map(reservation => parseHostReservationAddress(reservation.address))
+    .filter((range): range is AddressRange => range !== null);
+};
+
+// Ranges clipped to the usable range, sorted and merged
+const mergeWithin = (ranges: AddressRange[], usable: AddressRange): AddressRange[] => {
+  const clipped = ranges
+    .filter(range => rangesOverlap(range, usable))
+    .map(range => ({ ...range, start: range.start > usable.start ? range.start : usable.start, end: range.end < usable.end ? range.end : usable.end }))
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const merged: AddressRange[] = [];
+  for (const range of clipped) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1n) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+// Runs of usable addresses of a segment that no reservation (or extra excluded range) covers, in address order
+export function unreservedHostRanges(segment: NetworkSegmentPlan, exclude: AddressRange[] = []): AddressRange[] {
+  const usable = usableHostRange(segment);
+  if (!usable) return [];
+
+  const free: AddressRange[] = [];
+  let start = usable.start;
+  for (const range of mergeWithin([...reservationRanges(segment), ...exclude], usable)) {
+    if (start < range.start) free.push({ version: usable.version, start, end: range.start - 1n });
+    start = range.end + 1n;
+  }
+  if (start <= usable.end) free.push({ version: usable.version, start, end: usable.end });
+  return free;
+}
+
+// First usable address of a segment that no reservation covers, or null when every address is taken
+export function nextFreeHostAddress(segment: NetworkSegmentPlan): string | null {
+  const [first] = unreservedHostRanges(segment);
+  return first ? bigIntToIp(first.start, first.version) : null;
+}
+
+// Reserved and usable address counts of a segment, for its utilization meter
+export function hostReservationUtilization(segment: NetworkSegmentPlan): { reserved: number; usable: number } {
+  const usable = usableHostRange(segment);
+  if (!usable) return { reserved: 0, usable: 0 };
+
+  const reserved = mergeWithin(reservationRanges(segment), usable).reduce((total, range) => total + range.end - range.start + 1n, 0n);
+  return { reserved: Number(reserved), usable: segment.totalHosts };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeNetworkSegmentLayout } from './layout-optimizer';
+import { createNetworkSegmentFromCidr } from './subnet-utils';
+import type { NetworkSegmentPlan } from './subnet-utils';
+
+const segment = (name: string, cidr: string, fields: Partial<NetworkSegmentPlan> = {}): NetworkSegmentPlan => ({
+  ...createNetworkSegmentFromCidr(cidr, 0),
+  id: name,
+  name,
+  ...fields
+});
+
+const cidrs = (segments: NetworkSegmentPlan[]) => segments.map(networkSegment => networkSegment.cidr);
+
+describe('optimizeNetworkSegmentLayout', () => {
+  it('packs segments to leave the largest free block, moving as few as possible', () => {
+    const result = optimizeNetworkSegmentLayout('10.0.0.0/24', [
+      segment('app', '10.0.0.64/26'),
+      segment('db', '10.0.0.192/26')
+    ]);
+
+    expect(result.failures).toEqual([]);
+    expect(result.largestFreeBlock).toBe(128n);
+    expect(result.moves).toHaveLength(1);
+  });
+
+  it('leaves an already packed layout unchanged', () => {
+    const segments = [segment('app', '10.0.0.0/25'), segment('db', '10.0.0.128/26')];
+    const result = optimizeNetworkSegmentLayout('10.0.0.0/24', segments);
+
+    expect(result.moves).toEqual([]);
+    expect(cidrs(result.networkSegments)).toEqual(cidrs(segments));
+  });
+
+  it('keeps locked segments in place and packs the others around them', () => {
+    const result = optimizeNetworkSegmentLayout('10.0.0.0/24', [
+      segment('locked', '10.0.0.64/26', { locked: true }),
+      segment('app', '10.0.0.192/26')
+    ]);
+
+    expect(cidrs(result.networkSegments)).toEqual(['10.0.0.64/26', '10.0.0.0/26']);
+    expect(result.largestFreeBlock).toBe(128n);
+  });
+
+  it('packs segments around reserved ranges', () => {
+    const result = optimizeNetworkSegmentLayout('10.0.0.0/24', [segment('app', '10.0.0.128/26')], [
+      { id: 'vpn', cidr: '10.0.0.64/26', reason: 'VPN' }
+    ]);
+
+    expect(cidrs(result.networkSegments)).toEqual(['10.0.0.0/26']);
+    expect(result.largestFreeBlock).toBe(128n);
+  });
+
+  it('returns the plan unchanged with the segments that do not fit', () => {
+    const segments = [
+      segment('locked', '10.0.0.0/25', { locked: true }),
+      segment('app', '10.0.0.128/25'),
+      segment('db', '10.0.0.128/26')
+    ];
+    const result = optimizeNetworkSegmentLayout('10.0.0.0/24', segments);
+
+    expect(result.networkSegments).toBe(segments);
+    expect(result.moves).toEqual([]);
+    expect(result.failures.map(failure => failure.name)).toEqual(['db']);
+  });
+
+  describe('with several base network ranges', () => {
+    const quarters = ['10.0.0.0/26', '10.0.0.64/26', '10.0.0.128/26', '10.0.0.192/26'].map((cidr, index) => segment(`q${index}`, cidr));
+
+    it('puts a segment outside every range in the first range with room, as allocation does', () => {
+      const result = optimizeNetworkSegmentLayout(['10.0.1.0/24', '10.0.0.0/24'], [...quarters, segment('outside', '192.168.0.0/25')]);
+
+      expect(result.failures).toEqual([]);
+      expect(cidrs(result.networkSegments)).toEqual([...cidrs(quarters), '10.0.1.0/25']);
+    });
+
+    it('finds a complete layout when the preferred range is the only room a bounded segment has', () => {
+      const result = optimizeNetworkSegmentLayout(['10.0.0.0/24', '10.0.1.0/24'], [...quarters, segment('outside', '192.168.0.0/25')]);
+
+      expect(result.failures).toEqual([]);
+      expect(cidrs(result.networkSegments)).toEqual([...cidrs(quarters), '10.0.1.0/25']);
+    });
+
+    it('reports the segments that do not fit in any range', () => {
+      const segments = [...quarters, ...['a', 'b', 'c'].map((name, index) => segment(name, `192.168.${index}.0/25`))];
+      const result = optimizeNetworkSegmentLayout(['10.0.0.0/24', '10.0.1.0/24'], segments);
+
+      expect(result.networkSegments).toBe(segments);
+      expect(result.failures.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  addressBits,
+  blockSize,
+  baseNetworkContaining,
+  createNetworkSegmentFromCidr,
+  bigIntToIp,
+  descendantNetworkSegmentIds,
+  isValidCidr,
+  parseCidrRange,
+  relocateNetworkSegment
+} from './subnet-utils';
+import type { NetworkSegmentPlan, ReservedRange } from './subnet-utils';
+
+export interface NetworkSegmentMove {
+  id: string;
+  name: string;
+  fromCidr: string;
+  toCidr: string;
+}
+
+export interface NetworkSegmentPlacementFailure {
+  id: string;
+  name: string;
+  cidr: string;
+  reason: string;
+}
+
+export interface LayoutOptimization {
+  networkSegments: NetworkSegmentPlan[];
+  moves: NetworkSegmentMove[];
+  failures: NetworkSegmentPlacementFailure[]; // When not empty, networkSegments is the unchanged plan
+  largestFreeBlock: bigint; // Largest contiguous free range left by the chosen layout
+}
+
+interface FreeInterval {
+  start: bigint;
+  end: bigint;
+}
+
+interface PackingItem {
+  index: number; // Position of the segment in the plan
+  segment: NetworkSegmentPlan;
+  length: bigint;
+  currentStart: bigint;
+  ranges: FreeInterval[]; // Base network ranges the segment may go in, in allocation order: only the one it is in, or every range when it is outside them all
+}
+
+// Upper bound on explored placements; the search returns the best layout found so far when reached
+const SEARCH_NODE_LIMIT = 20000;
+
+// Round an address down/up to a block boundary
+const alignDown = (address: bigint, length: bigint): bigint => address - (address % length);
+const alignUp = (address: bigint, length: bigint): bigint => alignDown(address + length - 1n, length);
+
+// Length of the largest free interval
+const largestInterval = (free: FreeInterval[]): bigint => {
+  return free.reduce((largest, interval) => {
+    const length = interval.end - interval.start + 1n;
+    return length > largest ? length : largest;
+  }, 0n);
+};
+
+// Remove an occupied range from the free intervals
+const occupy = (free: FreeInterval[], start: bigint, end: bigint): FreeInterval[] => {
+  const result: FreeInterval[] = [];
+  for (const interval of free) {
+    if (interval.end < start || interval.start > end) {
+      result.push(interval);
+      continue;
+    }
+    if (interval.start < start) result.push({ start: interval.start, end: start - 1n });
+    if (interval.end > end) result.push({ start: end + 1n, end: interval.end });
+  }
+  return result;
+};
+
+// Aligned start addresses an item could take: its current address first (so unchanged
+// segments are tried first), then both ends of each free interval in its ranges, earlier
+// ranges first (like allocation) and tightest fit first within a range
+const candidateStarts = (item: PackingItem, allFree: FreeInterval[]): bigint[] => {
+  const rangeIndex = (interval: FreeInterval) => item.ranges.findIndex(range => range.start <= interval.start && interval.end <= range.end);
+  const free = allFree.filter(interval => rangeIndex(interval) !== -1);
+  const candidates: bigint[] = [];
+  const currentEnd = item.currentStart + item.length - 1n;
+  if (free.some(interval => interval.start <= item.currentStart && currentEnd <= interval.end)) {
+    candidates.push(item.currentStart);
+  }
+
+  const fitting = free
+    .map(interval => ({ interval, range: rangeIndex(interval), low: alignUp(interval.start, item.length) }))
+    .filter(({ interval, low }) => low + item.length - 1n <= interval.end)
+    .sort((a, b) => {
+      if (a.range !== b.range) return a.range - b.range;
+      const lengthA = a.interval.end - a.interval.start;
+      const lengthB = b.interval.end - b.interval.start;
+      if (lengthA !== lengthB) return lengthA < lengthB ? -1 : 1;
+      return a.interval.start < b.interval.start ? -1 : 1;
+    });
+
+  for (const { interval, low } of fitting) {
+    const high = alignDown(interval.end + 1n - item.length, item.length);
+    for (const start of [low, high]) {
+      if (!candidates.includes(start)) candidates.push(start);
+    }
+  }
+
+  return candidates;
+};
+
+// Place items largest first at the first free aligned address, reporting any that don't fit.
+// Power-of-two blocks placed largest first can never block each other within a range, so if
+// this pass fails while every item has a single range to go in, no complete placement exists.
+const firstFitFailures = (items: PackingItem[], free: FreeInterval[]): NetworkSegmentPlacementFailure[] => {
+  const failures: NetworkSegmentPlacementFailure[] = [];
+  let remaining = free;
+
+  for (const item of items) {
+    const [start] = candidateStarts({ ...item, currentStart: -1n }, remaining);
+    if (start === undefined) {
+      failures.push({
+        id: item.segment.id,
+        name: item.segment.name,
+        cidr: item.segment.cidr,
+        reason: `no aligned /${item.segment.size} block (${item.length.toLocaleString()} addresses) is left after placing larger and locked network segments around the reserved ranges; the largest free range is ${largestInterval(remaining).toLocaleString()} addresses`
+      });
+      continue;
+    }
+    remaining = occupy(remaining, start, start + item.length - 1n);
+  }
+
+  return failures;
+};
+
+// Search placements for the layout leaving the largest contiguous free block, moving as few
+// network segments as possible. Placing an item only ever shrinks the largest free block, so
+// branches that can no longer beat the best layout are pruned. Returns null when no complete
+// layout exists, or the segments left unplaced when the node limit stops the search first.
+const searchPlacements = (
+  items: PackingItem[],
+  free: FreeInterval[]
+): { starts: bigint[]; largestFree: bigint } | { failures: NetworkSegmentPlacementFailure[] } | null => {
+  let best: { starts: bigint[]; largestFree: bigint; moves: number } | null = null;
+  let nodes = 0;
+  let deepest = 0; // Most items placed on any branch
+  const starts: bigint[] = [];
+
+  const visit = (index: number, remaining: FreeInterval[], moves: number) => {
+    nodes++;
+    deepest = Math.max(deepest, index);
+    const largestFree = largestInterval(remaining);
+    if (best && (largestFree < best.largestFree || (largestFree === best.largestFree && moves >= best.moves))) {
+      return;
+    }
+    if (index === items.length) {
+      best = { starts: [...starts], largestFree, moves };
+      return;
+    }
+
+    const item = items[index];
+    for (const start of candidateStarts(item, remaining)) {
+      if (nodes > SEARCH_NODE_LIMIT) return;
+      starts[index] = start;
+      visit(index + 1, occupy(remaining, start, start + item.length - 1n), moves + (start === item.currentStart ? 0 : 1));
+    }
+  };
+
+  visit(0, free, 0);
+  if (best || nodes <= SEARCH_NODE_LIMIT) return best;
+  return {
+    failures: items.slice(deepest).map(item => ({
+      id: item.segment.id,
+      name: item.segment.name,
+      cidr: item.segment.cidr,
+      reason: `the layout search stopped after ${SEARCH_NODE_LIMIT.toLocaleString()} placements without finding room for it`
+    }))
+  };
+};
+
+// Repack unlocked top-level network segments around the locked ones and the reserved ranges; child
+// segments move with their parent, and a parent holding a locked segment stays where it is. Zone
+// group copies stay where they are, so the group keeps its symmetric block.
+// Optimization is all-or-nothing: if any network segment can't be placed, the plan is returned
+// unchanged with the failures. Segments keep their order in the plan; only their addresses change.
+// With several base network ranges, each network segment is repacked within the range it is in.
+export function optimizeNetworkSegmentLayout(
+  baseNetwork: string | string[],
+  networkSegments: NetworkSegmentPlan[],
+  reservedRanges: ReservedRange[] = []
+): LayoutOptimization {
+  const baseRanges = (Array.isArray(baseNetwork) ? baseNetwork : [baseNetwork]).map(parseCidrRange);
+  const base = baseRanges[0];
+  const largestBaseSize = Math.min(...baseRanges.map(range => range.size));
+  const failures: NetworkSegmentPlacementFailure[] = [];
+  const items: PackingItem[] = [];
+  const ranges: FreeInterval[] = baseRanges.map(range => ({ start: range.start, end: range.end }));
+  let free: FreeInterval[] = [...ranges].sort((a, b) => (a.start < b.start ? -1 : 1));
+
+  const isFixed = (segment: NetworkSegmentPlan) => segment.locked || !!segment.groupId || networkSegments.some(other =>
+    other.locked && descendantNetworkSegmentIds(networkSegments, segment.id).has(other.id)
+  );
+
+  // Locked network segments and reserved ranges are fixed obstacles
+  const obstacles = [
+    ...networkSegments.filter(segment => !segment.parentId && isFixed(segment)).map(segment => segment.cidr),
+    ...reservedRanges.map(reservedRange => reservedRange.cidr).filter(isValidCidr)
+  ];
+  for (const cidr of obstacles) {
+    const range = parseCidrRange(cidr);
+    if (range.version === base.version) {
+      free = occupy(free, range.start, range.end);
+    }
+  }
+
+  networkSegments.forEach((segment, index) => {
+    if (segment.parentId || isFixed(segment)) return;
+
+    const range = parseCidrRange(segment.cidr);
+    if (range.version !== base.version) {
+      failures.push({ id: segment.id, name: segment.name, cidr: segment.cidr, reason: `it is IPv${range.version} but the base network is IPv${base.version}` });
+    } else if (segment.size < largestBaseSize || segment.size > addressBits(base.version)) {
+      failures.push({ id: segment.id, name: segment.name, cidr: segment.cidr, reason: `a /${segment.size} is larger than ${baseRanges.length > 1 ? 'every base network range' : `the base network ${baseNetwork}`}` });
+    } else {
+      const containingRange = baseNetworkContaining(baseNetwork, segment.cidr);
+      const bounds = containingRange ? parseCidrRange(containingRange) : undefined;
+      items.push({
+        index,
+        segment,
+        length: blockSize(segment.size, base.version),
+        currentStart: bounds ? range.start : -1n,
+        ranges: bounds ? [{ start: bounds.start, end: bounds.end }] : ranges
+      });
+    }
+  });
+
+  // Largest first; equal sizes keep their address order. Segments outside every base range can go in
+  // any range, so they come after the bounded ones and don't take the only slot those fit in.
+  items.sort((a, b) => {
+    if (a.segment.size !== b.segment.size) return a.segment.size - b.segment.size;
+    if (a.ranges.length !== b.ranges.length) return a.ranges.length - b.ranges.length;
+    return a.currentStart < b.currentStart ? -1 : a.currentStart > b.currentStart ? 1 : 0;
+  });
+
+  // First fit decides whether a complete layout exists when every segment has one range to go in. A
+  // segment outside every range may take the room a bounded one needs, so then the search decides.
+  const firstFit = firstFitFailures(items, free);
+  const firstFitIsExact = items.every(item => item.ranges.length === 1);
+  const result = failures.length === 0 && (firstFit.length === 0 || !firstFitIsExact) ? searchPlacements(items, free) : null;
+  if (!result || 'failures' in result) {
+    failures.push(...(result ? result.failures : firstFit));
+    return { networkSegments, moves: [], failures, largestFreeBlock: largestInterval(free) };
+  }
+
+  // Preserve the original IDs and metadata; children keep their offset inside a moved parent
+  let optimizedSegments = networkSegments;
+  items.forEach((item, position) => {
+    const cidr = `${bigIntToIp(result.starts[position], base.version)}/${item.segment.size}`;
+    if (cidr !== item.segment.cidr) {
+      optimizedSegments = relocateNetworkSegment(optimizedSegments, item.segment.id, createNetworkSegmentFromCidr(cidr, 0)) ?? optimizedSegments;
+    }
+  });
+
+  const moves: NetworkSegmentMove[] = [];
+  networkSegments.forEach((segment, index) => {
+    const optimizedSegment = optimizedSegments[index];
+    if (optimizedSegment.cidr !== segment.cidr) {
+      moves.push({ id: segment.id, name: segment.name, fromCidr: segment.cidr, toCidr: optimizedSegment.cidr });
+    }
+  });
+
+  return { networkSegments: optimizedSegments, moves, failures: [], largestFreeBlock: result.largestFree };
+}
@@ -0,0 +1,63 @@
+import { planBaseNetworks } from './subnet-utils';
+import type { NetworkPlan, NetworkSegmentPlan } from './subnet-utils';
+
+export type NetworkSegmentChange = 'renamed' | 'resized' | 'renumbered';
+
+export interface NetworkSegmentDiff {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  changes: NetworkSegmentChange[]; // Only set for changed network segments
+  before?: NetworkSegmentPlan;
+  after?: NetworkSegmentPlan;
+}
+
+export interface PlanDiff {
+  baseNetworkBefore: string; // Every base network range, comma-separated
+  baseNetworkAfter: string;
+  networkSegments: NetworkSegmentDiff[];
+  counts: Record<NetworkSegmentDiff['status'], number>;
+}
+
+// Compare a matched pair of network segments
+const compareNetworkSegments = (before: NetworkSegmentPlan, after: NetworkSegmentPlan): NetworkSegmentDiff => {
+  const changes: NetworkSegmentChange[] = [];
+  if (before.name !== after.name) changes.push('renamed');
+  if (before.size !== after.size) changes.push('resized');
+  if (before.networkAddress !== after.networkAddress) changes.push('renumbered');
+  return { status: changes.length > 0 ? 'changed' : 'unchanged', changes, before, after };
+};
+
+// Diff two plans. Network segments are matched by ID, then by name, then by CIDR, so plans
+// exported from another workspace (with different IDs) still line up.
+export function diffPlans(before: NetworkPlan, after: NetworkPlan): PlanDiff {
+  const unmatchedBefore = [...before.networkSegments];
+  const matches = new Map<NetworkSegmentPlan, NetworkSegmentPlan>();
+
+  for (const key of ['id', 'name', 'cidr'] as const) {
+    for (const segment of after.networkSegments) {
+      if (matches.has(segment)) continue;
+      const index = unmatchedBefore.findIndex(candidate => candidate[key] === segment[key]);
+      if (index >= 0) {
+        matches.set(segment, unmatchedBefore[index]);
+        unmatchedBefore.splice(index, 1);
+      }
+    }
+  }
+
+  const networkSegments: NetworkSegmentDiff[] = after.networkSegments.map(segment => {
+    const previous = matches.get(segment);
+    return previous
+      ? compareNetworkSegments(previous, segment)
+      : { status: 'added', changes: [], after: segment };
+  });
+  networkSegments.push(...unmatchedBefore.map(segment => ({ status: 'removed' as const, changes: [], before: segment })));
+
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const diff of networkSegments) counts[diff.status]++;
+
+  return {
+    baseNetworkBefore: planBaseNetworks(before).join(', '),
+    baseNetworkAfter: planBaseNetworks(after).join(', '),
+    networkSegments,
+    counts
+  };
+}
@@ -0,0 +1,60 @@
+import type { NetworkPlan } from './subnet-utils';
+
+// A labeled change and the plan on the other side of it
+export interface HistoryEntry {
+  label: string; // e.g., Optimized layout (4 segments moved)
+  plan: NetworkPlan;
+  recordedAt: number;
+}
+
+export interface PlanHistory {
+  past: HistoryEntry[]; // Plans before each change, most recent last
+  future: HistoryEntry[]; // Plans after each undone change, most recently undone last
+}
+
+export const EMPTY_HISTORY: PlanHistory = { past: [], future: [] };
+
+const MAX_HISTORY_ENTRIES = 100;
+// Repeated changes with the same label within this window (e.g., typing a CIDR) form a single entry
+const COALESCE_WINDOW_MS = 1500;
+
+// Record a change, given the plan as it was before the change. Recording clears the redo stack.
+export function recordChange(history: PlanHistory, label: string, planBefore: NetworkPlan, now = Date.now()): PlanHistory {
+  const last = history.past[history.past.length - 1];
+  if (last && history.future.length === 0 && last.label === label && now - last.recordedAt < COALESCE_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, recordedAt: now }], future: [] };
+  }
+
+  const past = [...history.past, { label, plan: planBefore, recordedAt: now }];
+  return { past: past.slice(-MAX_HISTORY_ENTRIES), future: [] };
+}
+
+// Undo the most recent change, returning the plan to restore
+export function undoChange(history: PlanHistory, currentPlan: NetworkPlan): { history: PlanHistory; plan: NetworkPlan; label: string } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, plan: currentPlan, recordedAt: Date.now() }]
+    },
+    plan: entry.plan,
+    label: entry.label
+  };
+}
+
+// Redo the most recently undone change, returning the plan to restore
+export function redoChange(history: PlanHistory, currentPlan: NetworkPlan): { history: PlanHistory; plan: NetworkPlan; label: string } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, plan: currentPlan, recordedAt: 0 }], // Never coalesced
+      future: history.future.slice(0, -1)
+    },
+    plan: entry.plan,
+    label: entry.label
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { PLAN_SCHEMA_VERSION, parsePlanFile, serializePlan } from './plan-schema';
+import { createNetworkSegmentFromCidr } from './subnet-utils';
+import type { NetworkPlan } from './subnet-utils';
+
+const plan: NetworkPlan = {
+  baseNetwork: '10.0.0.0/16',
+  baseNetworkIpv6: '2001:db8::/56',
+  provider: 'on-prem',
+  networkSegments: [
+    { ...createNetworkSegmentFromCidr('10.0.0.0/24', 0), id: 'web', name: 'Web', ipv6Cidr: '2001:db8::/64' },
+    { ...createNetworkSegmentFromCidr('10.0.1.0/24', 1), id: 'db', name: 'Database', locked: true }
+  ]
+};
+
+// Parse a file, failing the test with its errors when it is rejected
+const parsedPlan = (config: object): NetworkPlan => {
+  const result = parsePlanFile(JSON.stringify(config));
+  if ('errors' in result) throw new Error(result.errors.join('\n'));
+  return result.plan;
+};
+
+describe('parsePlanFile', () => {
+  it('reads back an exported plan', () => {
+    const content = serializePlan(plan);
+
+    expect(JSON.parse(content).schemaVersion).toBe(PLAN_SCHEMA_VERSION);
+    expect(parsedPlan(JSON.parse(content))).toEqual(plan);
+  });
+
+  it('migrates a version 1 file, giving network segments that share an ID unique IDs', () => {
+    const legacy = {
+      baseNetwork: '10.0.0.0/16',
+      baseNetworkIpv6: '',
+      networkSegments: [
+        { id: '1700000000000', name: 'Web', cidr: '10.0.0.0/24' },
+        { id: '1700000000000', name: 'Database', cidr: '10.0.1.0/24' }
+      ]
+    };
+
+    for (const config of [legacy, { ...legacy, schemaVersion: 1 }]) {
+      const migrated = parsedPlan(config);
+      expect(migrated.baseNetworkIpv6).toBeUndefined();
+      expect(migrated.networkSegments.map(segment => segment.cidr)).toEqual(['10.0.0.0/24', '10.0.1.0/24']);
+      expect(new Set(migrated.networkSegments.map(segment => segment.id)).size).toBe(2);
+    }
+  });
+
+  it('rejects files from a newer version', () => {
+    const result = parsePlanFile(JSON.stringify({ ...plan, schemaVersion: PLAN_SCHEMA_VERSION + 1 }));
+
+    expect(result).toEqual({ errors: [expect.stringContaining(`schema version ${PLAN_SCHEMA_VERSION + 1}`)] });
+  });
+
+  it('rejects unknown fields and network segments outside the base network', () => {
+    const result = parsePlanFile(JSON.stringify({
+      ...plan,
+      schemaVersion: PLAN_SCHEMA_VERSION,
+      networkSegments: [{ name: 'Outside', cidr: '192.168.0.0/24', vlan: 10 }]
+    }));
+
+    expect('errors' in result && result.errors).toEqual([
+      expect.stringContaining('unknown field "vlan"'),
+      expect.stringContaining('outside the base network')
+    ]);
+  });
+});
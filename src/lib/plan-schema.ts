@@ -0,0 +1,621 @@
+import {
+  applyAddressReservation,
+  baseNetworkContaining,
+  bigIntToIp,
+  cidrRangeContains,
+  createNetworkSegmentFromCidr,
+  createNetworkSegmentId,
+  createReservedRangeId,
+  createNetworkSegmentGroupId,
+  createHostReservationId,
+  addressBits,
+  descendantNetworkSegmentIds,
+  getIpVersion,
+  isCidrAligned,
+  isValidCidr,
+  isValidIpAddress,
+  parseCidrRange,
+  planBaseNetworks,
+  validateBaseNetworks
+} from './subnet-utils';
+import type { DhcpSettings, HostReservation, NetworkPlan, NetworkSegmentGroup, NetworkSegmentPlan, ReservedRange, ZoneNaming } from './subnet-utils';
+import { MAX_GROUP_ZONES } from './segment-groups';
+import { parseHostReservationAddress } from './host-reservations';
+import { validateDnsDomain } from './dns-export';
+import { CLOUD_PROVIDER_PROFILES, getCloudProviderProfile } from './providers';
+
+// Version of the JSON configuration format written by export.
+// Files without a schemaVersion were written before versioning and are treated as version 1.
+export const PLAN_SCHEMA_VERSION = 11;
+
+type JsonObject = Record<string, unknown>;
+
+const PLAN_FIELDS = ['schemaVersion', 'timestamp', 'baseNetwork', 'secondaryBaseNetworks', 'baseNetworkIpv6', 'reservedRanges', 'provider', 'dnsDomain', 'networkSegments', 'networkSegmentGroups'];
+const RESERVED_RANGE_FIELDS = ['id', 'cidr', 'reason'];
+const NETWORK_SEGMENT_GROUP_FIELDS = ['id', 'name', 'description', 'size', 'zoneCount', 'zonePrefix', 'zoneNaming', 'parentId'];
+const HOST_RESERVATION_FIELDS = ['id', 'address', 'name', 'mac', 'notes'];
+const DHCP_FIELDS = ['poolStart', 'poolEnd', 'gateway', 'dnsServers', 'leaseTime'];
+const NETWORK_SEGMENT_FIELDS = [
+  'id', 'name', 'description', 'cidr', 'ipv6Cidr', 'requestedHosts', 'growthPercent', 'locked', 'availabilityZone', 'tags', 'cloudResourceId', 'parentId', 'groupId', 'hostReservations', 'dhcp',
+  // Derived from cidr; accepted but always recalculated on import
+  'networkAddress', 'broadcastAddress', 'firstHost', 'lastHost', 'totalHosts', 'subnetMask', 'size'
+];
+
+// Migrations from each version to the next. Each receives a plain object of its version.
+const MIGRATIONS: Record<number, (config: JsonObject) => JsonObject> = {
+  // Version 1 files could contain an empty IPv6 base and network segments sharing an ID
+  // (IDs were timestamps), so blank the former and give every network segment a unique ID
+  1: (config) => {
+    const seenIds = new Set<unknown>();
+    const networkSegments = Array.isArray(config.networkSegments)
+      ? config.networkSegments.map((segment: unknown) => {
+        if (typeof segment !== 'object' || segment === null) return segment;
+        const { id } = segment as JsonObject;
+        const uniqueId = typeof id === 'string' && id && !seenIds.has(id) ? id : createNetworkSegmentId();
+        seenIds.add(uniqueId);
+        return { ...segment, id: uniqueId };
+      })
+      : config.networkSegments;
+
+    const { baseNetworkIpv6, ...rest } = config;
+    return {
+      ...rest,
+      ...(baseNetworkIpv6 === '' ? {} : { baseNetworkIpv6 }),
+      networkSegments,
+      schemaVersion: 2
+    };
+  },
+  // Version 3 added tags; version 2 files are valid as they are
+  2: (config) => ({ ...config, schemaVersion: 3 }),
+  // Version 4 added cloud resource IDs; version 3 files are valid as they are
+  3: (config) => ({ ...config, schemaVersion: 4 }),
+  // Version 5 added nested network segments (parentId); version 4 files are valid as they are
+  4: (config) => ({ ...config, schemaVersion: 5 }),
+  // Version 6 added secondary base network ranges; version 5 files are valid as they are
+  5: (config) => ({ ...config, schemaVersion: 6 }),
+  // Version 7 added reserved ranges; version 6 files are valid as they are
+  6: (config) => ({ ...config, schemaVersion: 7 }),
+  // Version 8 added availability zone groups; version 7 files are valid as they are
+  7: (config) => ({ ...config, schemaVersion: 8 }),
+  // Version 9 added host reservations; version 8 files are valid as they are
+  8: (config) => ({ ...config, schemaVersion: 9 }),
+  // Version 10 added DHCP settings; version 9 files are valid as they are
+  9: (config) => ({ ...config, schemaVersion: 10 }),
+  // Version 11 added the DNS domain; version 10 files are valid as they are
+  10: (config) => ({ ...config, schemaVersion: 11 }),
+};
+
+// Serialize a plan in the current schema version
+export function serializePlan(plan: NetworkPlan): string {
+  return JSON.stringify({ schemaVersion: PLAN_SCHEMA_VERSION, ...plan, timestamp: new Date().toISOString() }, null, 2);
+}
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Report fields a schema doesn't define
+const unknownFields = (value: JsonObject, fields: string[]): string[] => {
+  return Object.keys(value).filter(key => !fields.includes(key));
+};
+
+// Validate a CIDR field, returning an error message or null
+const cidrError = (field: string, value: unknown): string | null => {
+  if (typeof value !== 'string' || !isValidCidr(value)) {
+    return `${field} ${JSON.stringify(value)} is not a valid CIDR`;
+  }
+  if (!isCidrAligned(value)) {
+    const { version, start, size } = parseCidrRange(value);
+    return `${field} "${value}" is not a network address; did you mean ${bigIntToIp(start, version)}/${size}?`;
+  }
+  return null;
+};
+
+// Validate one reserved range, returning the rebuilt range or its errors
+const parseReservedRange = (
+  value: unknown,
+  index: number,
+  baseNetwork: string
+): { reservedRange: ReservedRange } | { errors: string[] } => {
+  const label = `Reserved range ${index + 1}`;
+  if (!isObject(value)) {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, RESERVED_RANGE_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label}: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (value.id !== undefined && (typeof value.id !== 'string' || !value.id)) {
+    errors.push(`${label}: id must be a non-empty string`);
+  }
+  if (value.reason !== undefined && typeof value.reason !== 'string') {
+    errors.push(`${label}: reason must be a string`);
+  }
+
+  const cidrProblem = cidrError('cidr', value.cidr);
+  if (cidrProblem) {
+    errors.push(`${label}: ${cidrProblem}`);
+  } else if (getIpVersion(value.cidr as string) !== getIpVersion(baseNetwork)) {
+    errors.push(`${label}: cidr "${value.cidr}" is IPv${getIpVersion(value.cidr as string)} but the base network is IPv${getIpVersion(baseNetwork)}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    reservedRange: {
+      id: (value.id as string | undefined) ?? createReservedRangeId(),
+      cidr: value.cidr as string,
+      reason: ((value.reason as string | undefined) ?? '').trim()
+    }
+  };
+};
+
+// Validate one zone group, returning the rebuilt group or its errors
+const parseNetworkSegmentGroup = (
+  value: unknown,
+  index: number,
+  baseNetwork: string
+): { group: NetworkSegmentGroup } | { errors: string[] } => {
+  const label = isObject(value) && typeof value.name === 'string' && value.name
+    ? `Zone group ${index + 1} ("${value.name}")`
+    : `Zone group ${index + 1}`;
+  if (!isObject(value)) {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, NETWORK_SEGMENT_GROUP_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label}: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${label}: name must be a non-empty string`);
+  }
+  for (const field of ['id', 'parentId'] as const) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || !value[field])) {
+      errors.push(`${label}: ${field} must be a non-empty string`);
+    }
+  }
+  for (const field of ['description', 'zonePrefix'] as const) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${label}: ${field} must be a string`);
+    }
+  }
+  if (value.zoneNaming !== undefined && value.zoneNaming !== 'letter' && value.zoneNaming !== 'number') {
+    errors.push(`${label}: zoneNaming must be "letter" or "number"`);
+  }
+  const bits = addressBits(getIpVersion(baseNetwork));
+  if (!Number.isInteger(value.size) || (value.size as number) < 0 || (value.size as number) > bits) {
+    errors.push(`${label}: size must be a prefix length from 0 to ${bits}`);
+  }
+  if (!Number.isInteger(value.zoneCount) || (value.zoneCount as number) < 1 || (value.zoneCount as number) > MAX_GROUP_ZONES) {
+    errors.push(`${label}: zoneCount must be an integer from 1 to ${MAX_GROUP_ZONES}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    group: {
+      id: (value.id as string | undefined) ?? createNetworkSegmentGroupId(),
+      name: (value.name as string).trim(),
+      description: value.description as string | undefined,
+      size: value.size as number,
+      zoneCount: value.zoneCount as number,
+      zonePrefix: value.zonePrefix as string | undefined,
+      zoneNaming: value.zoneNaming as ZoneNaming | undefined,
+      parentId: value.parentId as string | undefined
+    }
+  };
+};
+
+// Validate one host reservation of a network segment, returning the rebuilt reservation or its errors.
+// Whether the address lies in the segment's usable range depends on the provider, so plan validation checks that.
+const parseHostReservation = (
+  value: unknown,
+  index: number,
+  segmentLabel: string,
+  cidr: string | null
+): { reservation: HostReservation } | { errors: string[] } => {
+  const label = `${segmentLabel}: host reservation ${index + 1}`;
+  if (!isObject(value)) {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, HOST_RESERVATION_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label}: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (value.id !== undefined && (typeof value.id !== 'string' || !value.id)) {
+    errors.push(`${label}: id must be a non-empty string`);
+  }
+  for (const field of ['name', 'mac', 'notes'] as const) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${label}: ${field} must be a string`);
+    }
+  }
+
+  const range = typeof value.address === 'string' ? parseHostReservationAddress(value.address) : null;
+  if (!range) {
+    errors.push(`${label}: address ${JSON.stringify(value.address)} is not an IP address or ascending range`);
+  } else if (cidr) {
+    const block = parseCidrRange(cidr);
+    if (range.version !== block.version || range.start < block.start || range.end > block.end) {
+      errors.push(`${label}: address "${value.address}" is outside ${cidr}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    reservation: {
+      id: (value.id as string | undefined) ?? createHostReservationId(),
+      address: (value.address as string).trim(),
+      name: ((value.name as string | undefined) ?? '').trim(),
+      mac: (value.mac as string | undefined) || undefined,
+      notes: (value.notes as string | undefined) || undefined
+    }
+  };
+};
+
+// Validate the DHCP settings of a network segment, returning the rebuilt settings or their errors.
+// Whether the pool and gateway lie in the segment's usable range depends on the provider, so plan validation checks that.
+const parseDhcpSettings = (value: unknown, segmentLabel: string): { dhcp: DhcpSettings } | { errors: string[] } => {
+  const label = `${segmentLabel}: dhcp`;
+  if (!isObject(value)) {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, DHCP_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label}: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  for (const field of ['poolStart', 'poolEnd', 'gateway'] as const) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || !isValidIpAddress(value[field]))) {
+      errors.push(`${label}: ${field} ${JSON.stringify(value[field])} is not an IPv4 address`);
+    }
+  }
+  if ((value.poolStart === undefined) !== (value.poolEnd === undefined)) {
+    errors.push(`${label}: poolStart and poolEnd must be set together`);
+  }
+  if (value.dnsServers !== undefined && (!Array.isArray(value.dnsServers) || !value.dnsServers.every(server => typeof server === 'string' && isValidIpAddress(server)))) {
+    errors.push(`${label}: dnsServers must be an array of IPv4 addresses`);
+  }
+  if (value.leaseTime !== undefined && (!Number.isInteger(value.leaseTime) || (value.leaseTime as number) <= 0)) {
+    errors.push(`${label}: leaseTime must be a positive integer (seconds)`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    dhcp: {
+      poolStart: value.poolStart as string | undefined,
+      poolEnd: value.poolEnd as string | undefined,
+      gateway: value.gateway as string | undefined,
+      dnsServers: value.dnsServers as string[] | undefined,
+      leaseTime: value.leaseTime as number | undefined
+    }
+  };
+};
+
+// Validate one network segment, returning the rebuilt segment or its errors
+const parseNetworkSegment = (
+  value: unknown,
+  index: number,
+  baseNetworks: string[],
+  baseNetworkIpv6: string | undefined
+): { segment: NetworkSegmentPlan } | { errors: string[] } => {
+  const label = isObject(value) && typeof value.name === 'string' && value.name
+    ? `Network segment ${index + 1} ("${value.name}")`
+    : `Network segment ${index + 1}`;
+  if (!isObject(value)) {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, NETWORK_SEGMENT_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label}: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${label}: name must be a non-empty string`);
+  }
+  if (value.id !== undefined && (typeof value.id !== 'string' || !value.id)) {
+    errors.push(`${label}: id must be a non-empty string`);
+  }
+
+  const cidrProblem = cidrError('cidr', value.cidr);
+  if (cidrProblem) {
+    errors.push(`${label}: ${cidrProblem}`);
+  } else {
+    const range = parseCidrRange(value.cidr as string);
+    if (!baseNetworkContaining(baseNetworks, value.cidr as string)) {
+      errors.push(baseNetworks.length > 1
+        ? `${label}: cidr "${value.cidr}" is outside every base network range (${baseNetworks.join(', ')})`
+        : `${label}: cidr "${value.cidr}" is outside the base network ${baseNetworks[0]}`);
+    }
+    if (value.size !== undefined && value.size !== range.size) {
+      errors.push(`${label}: size ${JSON.stringify(value.size)} does not match cidr "${value.cidr}"`);
+    }
+  }
+
+  if (value.ipv6Cidr !== undefined) {
+    const ipv6Problem = cidrError('ipv6Cidr', value.ipv6Cidr);
+    if (ipv6Problem) {
+      errors.push(`${label}: ${ipv6Problem}`);
+    } else if (getIpVersion(value.ipv6Cidr as string) !== 6) {
+      errors.push(`${label}: ipv6Cidr "${value.ipv6Cidr}" is not an IPv6 CIDR`);
+    } else if (!baseNetworkIpv6) {
+      errors.push(`${label}: ipv6Cidr is set but the plan has no baseNetworkIpv6`);
+    } else if (!cidrRangeContains(parseCidrRange(baseNetworkIpv6), parseCidrRange(value.ipv6Cidr as string))) {
+      errors.push(`${label}: ipv6Cidr "${value.ipv6Cidr}" is outside the IPv6 base network ${baseNetworkIpv6}`);
+    }
+  }
+
+  for (const field of ['parentId', 'groupId'] as const) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || !value[field])) {
+      errors.push(`${label}: ${field} must be a non-empty string`);
+    }
+  }
+  for (const field of ['description', 'availabilityZone', 'cloudResourceId'] as const) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${label}: ${field} must be a string`);
+    }
+  }
+  if (value.requestedHosts !== undefined && (!Number.isInteger(value.requestedHosts) || (value.requestedHosts as number) <= 0)) {
+    errors.push(`${label}: requestedHosts must be a positive integer`);
+  }
+  if (value.growthPercent !== undefined && (typeof value.growthPercent !== 'number' || !Number.isFinite(value.growthPercent) || value.growthPercent < 0)) {
+    errors.push(`${label}: growthPercent must be a non-negative number`);
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || !value.tags.every(tag => typeof tag === 'string'))) {
+    errors.push(`${label}: tags must be an array of strings`);
+  }
+  if (value.locked !== undefined && typeof value.locked !== 'boolean') {
+    errors.push(`${label}: locked must be true or false`);
+  }
+
+  const hostReservations: HostReservation[] = [];
+  if (value.hostReservations !== undefined) {
+    if (!Array.isArray(value.hostReservations)) {
+      errors.push(`${label}: hostReservations must be an array`);
+    } else {
+      value.hostReservations.forEach((reservation, reservationIndex) => {
+        const result = parseHostReservation(reservation, reservationIndex, label, cidrProblem ? null : value.cidr as string);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else {
+          hostReservations.push(result.reservation);
+        }
+      });
+    }
+  }
+
+  let dhcp: DhcpSettings | undefined;
+  if (value.dhcp !== undefined) {
+    const result = parseDhcpSettings(value.dhcp, label);
+    if ('errors' in result) {
+      errors.push(...result.errors);
+    } else {
+      dhcp = result.dhcp;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Derived fields are always recalculated from the CIDR
+  return {
+    segment: {
+      ...createNetworkSegmentFromCidr(value.cidr as string, index + 1),
+      id: (value.id as string | undefined) ?? createNetworkSegmentId(),
+      name: (value.name as string).trim(),
+      description: value.description as string | undefined,
+      ipv6Cidr: value.ipv6Cidr as string | undefined,
+      requestedHosts: value.requestedHosts as number | undefined,
+      growthPercent: value.growthPercent as number | undefined,
+      locked: value.locked === true || undefined,
+      availabilityZone: value.availabilityZone as string | undefined,
+      tags: value.tags as string[] | undefined,
+      cloudResourceId: value.cloudResourceId as string | undefined,
+      parentId: value.parentId as string | undefined,
+      groupId: value.groupId as string | undefined,
+      hostReservations: hostReservations.length > 0 ? hostReservations : undefined,
+      dhcp
+    }
+  };
+};
+
+// Parse and validate a JSON configuration file, migrating older schema versions.
+// Returns every problem found rather than stopping at the first.
+export function parsePlanFile(content: string): { plan: NetworkPlan } | { errors: string[] } {
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    return { errors: [`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  if (!isObject(config)) {
+    return { errors: ['The file must contain a JSON object'] };
+  }
+
+  // Migrate older files one version at a time
+  let version = config.schemaVersion ?? 1;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return { errors: [`schemaVersion ${JSON.stringify(version)} is not a valid version`] };
+  }
+  if ((version as number) > PLAN_SCHEMA_VERSION) {
+    return { errors: [`The file uses schema version ${version}, but this version of IP Network Planner reads up to version ${PLAN_SCHEMA_VERSION}`] };
+  }
+  while ((version as number) < PLAN_SCHEMA_VERSION) {
+    config = MIGRATIONS[version as number](config as JsonObject);
+    version = (version as number) + 1;
+  }
+  const plan = config as JsonObject;
+
+  const errors: string[] = [];
+  const unknown = unknownFields(plan, PLAN_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`Unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+
+  const baseNetworkProblem = cidrError('baseNetwork', plan.baseNetwork);
+  if (baseNetworkProblem) errors.push(baseNetworkProblem);
+
+  if (plan.secondaryBaseNetworks !== undefined) {
+    if (!Array.isArray(plan.secondaryBaseNetworks)) {
+      errors.push('secondaryBaseNetworks must be an array of CIDRs');
+    } else {
+      const rangeProblems = plan.secondaryBaseNetworks
+        .map((cidr, index) => cidrError(`secondaryBaseNetworks[${index}]`, cidr))
+        .filter((problem): problem is string => problem !== null);
+      errors.push(...rangeProblems);
+      if (rangeProblems.length === 0 && !baseNetworkProblem) {
+        errors.push(...validateBaseNetworks([plan.baseNetwork as string, ...plan.secondaryBaseNetworks]));
+      }
+    }
+  }
+
+  if (plan.baseNetworkIpv6 !== undefined) {
+    const ipv6Problem = cidrError('baseNetworkIpv6', plan.baseNetworkIpv6);
+    if (ipv6Problem) {
+      errors.push(ipv6Problem);
+    } else if (getIpVersion(plan.baseNetworkIpv6 as string) !== 6) {
+      errors.push(`baseNetworkIpv6 "${plan.baseNetworkIpv6}" is not an IPv6 CIDR`);
+    } else if (!baseNetworkProblem && getIpVersion(plan.baseNetwork as string) !== 4) {
+      errors.push('baseNetworkIpv6 is only allowed when baseNetwork is IPv4');
+    }
+  }
+
+  const reservedRanges: ReservedRange[] = [];
+  if (plan.reservedRanges !== undefined) {
+    if (!Array.isArray(plan.reservedRanges)) {
+      errors.push('reservedRanges must be an array');
+    } else if (!baseNetworkProblem) {
+      plan.reservedRanges.forEach((value, index) => {
+        const result = parseReservedRange(value, index, plan.baseNetwork as string);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else {
+          reservedRanges.push(result.reservedRange);
+        }
+      });
+    }
+  }
+
+  if (plan.provider !== undefined && !CLOUD_PROVIDER_PROFILES.some(profile => profile.id === plan.provider)) {
+    errors.push(`provider ${JSON.stringify(plan.provider)} must be one of ${CLOUD_PROVIDER_PROFILES.map(profile => profile.id).join(', ')}`);
+  }
+
+  if (plan.dnsDomain !== undefined) {
+    const domainProblem = typeof plan.dnsDomain === 'string' ? validateDnsDomain(plan.dnsDomain) : 'dnsDomain must be a string';
+    if (domainProblem) errors.push(domainProblem);
+  }
+
+  if (!Array.isArray(plan.networkSegments)) {
+    errors.push('networkSegments must be an array');
+  }
+
+  const networkSegmentGroups: NetworkSegmentGroup[] = [];
+  if (plan.networkSegmentGroups !== undefined) {
+    if (!Array.isArray(plan.networkSegmentGroups)) {
+      errors.push('networkSegmentGroups must be an array');
+    } else if (!baseNetworkProblem) {
+      plan.networkSegmentGroups.forEach((value, index) => {
+        const result = parseNetworkSegmentGroup(value, index, plan.baseNetwork as string);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else if (networkSegmentGroups.some(group => group.id === result.group.id)) {
+          errors.push(`Zone group ${index + 1} ("${result.group.name}"): id "${result.group.id}" is used by another zone group`);
+        } else {
+          networkSegmentGroups.push(result.group);
+        }
+      });
+    }
+  }
+
+  // Network segments can only be checked against a valid base network
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const baseNetwork = plan.baseNetwork as string;
+  const secondaryBaseNetworks = plan.secondaryBaseNetworks as string[] | undefined;
+  const baseNetworks = planBaseNetworks({ baseNetwork, secondaryBaseNetworks });
+  const baseNetworkIpv6 = plan.baseNetworkIpv6 as string | undefined;
+  const networkSegments: NetworkSegmentPlan[] = [];
+  const seenIds = new Set<string>();
+
+  (plan.networkSegments as unknown[]).forEach((value, index) => {
+    const result = parseNetworkSegment(value, index, baseNetworks, baseNetworkIpv6);
+    if ('errors' in result) {
+      errors.push(...result.errors);
+      return;
+    }
+    if (seenIds.has(result.segment.id)) {
+      errors.push(`Network segment ${index + 1} ("${result.segment.name}"): id "${result.segment.id}" is used by another network segment`);
+      return;
+    }
+    seenIds.add(result.segment.id);
+    networkSegments.push(result.segment);
+  });
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Child segments must sit inside an existing parent, without nesting inside themselves
+  const segmentsById = new Map(networkSegments.map(segment => [segment.id, segment]));
+  networkSegments.forEach((segment, index) => {
+    if (segment.parentId === undefined) return;
+    const label = `Network segment ${index + 1} ("${segment.name}")`;
+    const parent = segmentsById.get(segment.parentId);
+    if (!parent) {
+      errors.push(`${label}: parentId "${segment.parentId}" does not match any network segment`);
+    } else if (descendantNetworkSegmentIds(networkSegments, segment.id).has(segment.id)) {
+      errors.push(`${label}: parentId "${segment.parentId}" nests the network segment inside itself`);
+    } else if (!cidrRangeContains(parseCidrRange(parent.cidr), parseCidrRange(segment.cidr))) {
+      errors.push(`${label}: cidr "${segment.cidr}" is outside its parent "${parent.name}" (${parent.cidr})`);
+    }
+  });
+
+  // Zone group copies must belong to a group, and groups nested in a parent must name an existing one
+  networkSegments.forEach((segment, index) => {
+    if (segment.groupId !== undefined && !networkSegmentGroups.some(group => group.id === segment.groupId)) {
+      errors.push(`Network segment ${index + 1} ("${segment.name}"): groupId "${segment.groupId}" does not match any zone group`);
+    }
+  });
+  networkSegmentGroups.forEach((group, index) => {
+    if (group.parentId !== undefined && !segmentsById.has(group.parentId)) {
+      errors.push(`Zone group ${index + 1} ("${group.name}"): parentId "${group.parentId}" does not match any network segment`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const profile = getCloudProviderProfile(plan.provider as string | undefined);
+  return {
+    plan: {
+      baseNetwork,
+      secondaryBaseNetworks: secondaryBaseNetworks?.length ? secondaryBaseNetworks : undefined,
+      baseNetworkIpv6,
+      reservedRanges: reservedRanges.length > 0 ? reservedRanges : undefined,
+      provider: plan.provider as string | undefined,
+      dnsDomain: plan.dnsDomain as string | undefined,
+      networkSegments: applyAddressReservation(networkSegments, version => profile.reservation[version]),
+      networkSegmentGroups: networkSegmentGroups.length > 0 ? networkSegmentGroups : undefined
+    }
+  };
+}
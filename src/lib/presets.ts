@@ -1,56 +1,57 @@
+// Inputs a template asks for before it builds a plan
+export interface TemplateParameters {
+  baseNetwork: string;
+  zoneCount: number; // Availability zones every zonal tier spans
+  environments: string[]; // Per-environment tiers get one copy per environment, e.g. Dev, Staging, Prod
+  growthPercent: number; // Growth headroom on top of the host count of host-sized tiers
+}
+
+export interface TemplateNetworkSegment {
+  name: string;
+  description: string;
+  size?: number; // Prefix length
+  hosts?: number; // Required host count, used when size is omitted
+  zonal?: boolean; // Replicate the segment across the availability zones as a zone group
+  perEnvironment?: boolean; // Repeat the segment for every environment
+}
+
 export interface PresetTemplate {
   name: string;
   description: string;
-  baseNetwork: string;
-  networkSegments: Array<{
-    name: string;
-    description: string;
-    size: number;
-  }>;
+  parameters: TemplateParameters; // Defaults, adjusted before the template is applied
+  networkSegments: TemplateNetworkSegment[];
 }
 
 export const PRESET_TEMPLATES: PresetTemplate[] = [
   {
     name: "AWS VPC - Basic",
-    description: "Basic AWS VPC with public and private network segments across 2 AZs",
-    baseNetwork: "10.0.0.0/16",
+    description: "Basic AWS VPC with public, private and database network segments in every AZ",
+    parameters: { baseNetwork: "10.0.0.0/16", zoneCount: 2, environments: [], growthPercent: 0 },
     networkSegments: [
       {
-        name: "Public Network Segment AZ-1",
-        description: "Public network segment for internet-facing resources in Availability Zone 1",
-        size: 24
+        name: "public",
+        description: "Public network segment for internet-facing resources",
+        size: 24,
+        zonal: true
       },
       {
-        name: "Public Network Segment AZ-2", 
-        description: "Public network segment for internet-facing resources in Availability Zone 2",
-        size: 24
-      },
-      {
-        name: "Private Network Segment AZ-1",
-        description: "Private network segment for application servers in Availability Zone 1",
-        size: 24
-      },
-      {
-        name: "Private Network Segment AZ-2",
-        description: "Private network segment for application servers in Availability Zone 2", 
-        size: 24
-      },
-      {
-        name: "Database Network Segment AZ-1",
-        description: "Private network segment for databases in Availability Zone 1",
-        size: 25
+        name: "private",
+        description: "Private network segment for application servers",
+        size: 24,
+        zonal: true
       },
       {
-        name: "Database Network Segment AZ-2",
-        description: "Private network segment for databases in Availability Zone 2",
-        size: 25
+        name: "database",
+        description: "Private network segment for databases",
+        size: 25,
+        zonal: true
       }
     ]
   },
   {
     name: "GCP VPC - Standard",
     description: "Standard GCP VPC with network segments for different environments",
-    baseNetwork: "10.0.0.0/16",
+    parameters: { baseNetwork: "10.0.0.0/16", zoneCount: 1, environments: [], growthPercent: 0 },
     networkSegments: [
       {
         name: "Default Network Segment",
@@ -81,50 +82,33 @@ export const PRESET_TEMPLATES: PresetTemplate[] = [
   },
   {
     name: "Multi-Environment",
-    description: "VPC with network segments for development, staging, and production",
-    baseNetwork: "10.0.0.0/16",
+    description: "VPC with public, private and database network segments for every environment",
+    parameters: { baseNetwork: "10.0.0.0/16", zoneCount: 1, environments: ["Dev", "Staging", "Prod"], growthPercent: 0 },
     networkSegments: [
       {
-        name: "Dev Public",
-        description: "Development public network segment",
-        size: 25
-      },
-      {
-        name: "Dev Private",
-        description: "Development private network segment",
-        size: 25
-      },
-      {
-        name: "Staging Public",
-        description: "Staging public network segment",
-        size: 25
-      },
-      {
-        name: "Staging Private",
-        description: "Staging private network segment",
-        size: 25
+        name: "Public",
+        description: "Public network segment",
+        size: 24,
+        perEnvironment: true
       },
       {
-        name: "Prod Public",
-        description: "Production public network segment",
-        size: 24
+        name: "Private",
+        description: "Private network segment",
+        size: 24,
+        perEnvironment: true
       },
       {
-        name: "Prod Private",
-        description: "Production private network segment",
-        size: 24
-      },
-      {
-        name: "Prod Database",
-        description: "Production database network segment",
-        size: 25
+        name: "Database",
+        description: "Database network segment",
+        size: 25,
+        perEnvironment: true
       }
     ]
   },
   {
     name: "Microservices",
     description: "VPC optimized for microservices architecture with dedicated network segments",
-    baseNetwork: "10.0.0.0/16",
+    parameters: { baseNetwork: "10.0.0.0/16", zoneCount: 1, environments: [], growthPercent: 20 },
     networkSegments: [
       {
         name: "API Gateway",
@@ -134,12 +118,12 @@ export const PRESET_TEMPLATES: PresetTemplate[] = [
       {
         name: "Frontend Services",
         description: "Network segment for frontend microservices",
-        size: 25
+        hosts: 100
       },
       {
         name: "Backend Services",
         description: "Network segment for backend microservices",
-        size: 25
+        hosts: 100
       },
       {
         name: "Data Services",
@@ -0,0 +1,134 @@
+import { getIpVersion, getNetworkSegmentSizes, leafNetworkSegments, parseCidrRange, sizeForHostCount } from './subnet-utils';
+import type { AddressReservation, IpVersion, NetworkSegmentPlan, ZoneNaming } from './subnet-utils';
+
+export type CloudProviderId = 'aws' | 'azure' | 'gcp' | 'on-prem';
+
+export interface PrefixRange {
+  min: number; // Largest allowed subnet
+  max: number; // Smallest allowed subnet
+}
+
+export interface CloudProviderProfile {
+  id: CloudProviderId;
+  name: string;
+  description: string;
+  reservation: Record<IpVersion, AddressReservation>; // Addresses the provider reserves in every subnet
+  prefixRange: Record<IpVersion, PrefixRange>;
+  zonePrefix: string; // Example zone name prefix for zone groups; zone letters or numbers are appended
+  zoneNaming: ZoneNaming; // Whether the provider names zones a, b, c or 1, 2, 3
+}
+
+export const CLOUD_PROVIDER_PROFILES: CloudProviderProfile[] = [
+  {
+    id: 'aws',
+    name: 'AWS',
+    description: 'Subnets /16 to /28; reserves the network address, VPC router, DNS, one future address and the broadcast address',
+    reservation: { 4: { start: 4, end: 1 }, 6: { start: 4, end: 1 } },
+    prefixRange: { 4: { min: 16, max: 28 }, 6: { min: 44, max: 64 } },
+    zonePrefix: 'us-east-1',
+    zoneNaming: 'letter',
+  },
+  {
+    id: 'azure',
+    name: 'Azure',
+    description: 'Subnets up to /29; reserves the network address, default gateway, two DNS addresses and the broadcast address',
+    reservation: { 4: { start: 4, end: 1 }, 6: { start: 4, end: 1 } },
+    prefixRange: { 4: { min: 8, max: 29 }, 6: { min: 64, max: 64 } },
+    zonePrefix: '',
+    zoneNaming: 'number',
+  },
+  {
+    id: 'gcp',
+    name: 'Google Cloud',
+    description: 'Subnets /8 to /29; reserves the network address, default gateway, second-to-last address and broadcast address',
+    reservation: { 4: { start: 2, end: 2 }, 6: { start: 0, end: 0 } },
+    prefixRange: { 4: { min: 8, max: 29 }, 6: { min: 64, max: 64 } },
+    zonePrefix: 'us-central1-',
+    zoneNaming: 'letter',
+  },
+  {
+    id: 'on-prem',
+    name: 'On-Premises',
+    description: 'Any prefix length; reserves the network and broadcast addresses',
+    reservation: { 4: { start: 1, end: 1 }, 6: { start: 0, end: 0 } },
+    prefixRange: { 4: { min: 0, max: 32 }, 6: { min: 0, max: 128 } },
+    zonePrefix: 'site-',
+    zoneNaming: 'letter',
+  },
+];
+
+export const DEFAULT_CLOUD_PROVIDER: CloudProviderId = 'on-prem';
+
+// Get a provider profile by ID, falling back to the default profile
+export function getCloudProviderProfile(id: string | undefined): CloudProviderProfile {
+  return CLOUD_PROVIDER_PROFILES.find(profile => profile.id === id)
+    ?? CLOUD_PROVIDER_PROFILES.find(profile => profile.id === DEFAULT_CLOUD_PROVIDER)!;
+}
+
+// Total number of addresses a provider reserves in every subnet
+export function reservedAddressCount(profile: CloudProviderProfile, version: IpVersion): number {
+  const { start, end } = profile.reservation[version];
+  return start + end;
+}
+
+// Smallest allowed prefix length that fits a host count under a provider's reservations.
+// Returns null when even the largest subnet the provider allows is too small.
+export function providerSizeForHostCount(
+  profile: CloudProviderProfile,
+  hosts: number,
+  growthPercent: number,
+  version: IpVersion
+): number | null {
+  const size = sizeForHostCount(hosts, growthPercent, version, reservedAddressCount(profile, version));
+  const { min, max } = profile.prefixRange[version];
+  if (size === null || size < min) return null;
+  return Math.min(size, max);
+}
+
+// Get the quick selection sizes a provider allows, labeled with their usable host counts
+export function getProviderNetworkSegmentSizes(profile: CloudProviderProfile, version: IpVersion) {
+  const { min, max } = profile.prefixRange[version];
+  return getNetworkSegmentSizes(version)
+    .filter(option => option.size >= min && option.size <= max)
+    .map(option => {
+      if (version === 6) return option;
+      const hosts = Math.max(2 ** (32 - option.size) - reservedAddressCount(profile, version), 0);
+      return { ...option, name: `/${option.size} (${hosts.toLocaleString()} usable hosts)`, hosts };
+    });
+}
+
+// Check a prefix length against a provider's subnet size limits
+export function validateProviderPrefix(profile: CloudProviderProfile, size: number, version: IpVersion): string | null {
+  const { min, max } = profile.prefixRange[version];
+  if (size >= min && size <= max) return null;
+  return `A /${size} is not a valid ${profile.name} IPv${version} subnet: sizes must be /${min} to /${max}`;
+}
+
+// Check the prefix length of a network segment being added. Blocks larger than the provider's largest
+// subnet are allowed because they can hold child segments; validation reports them if they never do.
+export function validateNewNetworkSegmentPrefix(profile: CloudProviderProfile, size: number, version: IpVersion): string | null {
+  return size < profile.prefixRange[version].min ? null : validateProviderPrefix(profile, size, version);
+}
+
+// Validate network segments against a provider's subnet size limits
+export function validateProviderConstraints(profile: CloudProviderProfile, networkSegments: NetworkSegmentPlan[]): string[] {
+  const errors: string[] = [];
+
+  // Only leaf network segments become subnets; parents are address space for them
+  for (const segment of leafNetworkSegments(networkSegments)) {
+    const version = getIpVersion(segment.cidr);
+    const error = validateProviderPrefix(profile, segment.size, version);
+    if (error) {
+      errors.push(`Network segment "${segment.name}": ${error}`);
+    }
+
+    if (segment.ipv6Cidr) {
+      const ipv6Error = validateProviderPrefix(profile, parseCidrRange(segment.ipv6Cidr).size, 6);
+      if (ipv6Error) {
+        errors.push(`Network segment "${segment.name}": ${ipv6Error}`);
+      }
+    }
+  }
+
+  return errors;
+}
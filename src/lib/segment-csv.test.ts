@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { generateSegmentCsv, previewSegmentImport } from './segment-csv';
+import type { SegmentImportPreview } from './segment-csv';
+import { getCloudProviderProfile } from './providers';
+import { createNetworkSegmentFromCidr } from './subnet-utils';
+import type { NetworkPlan } from './subnet-utils';
+
+const aws = getCloudProviderProfile('aws');
+
+const plan: NetworkPlan = {
+  baseNetwork: '10.0.0.0/16',
+  baseNetworkIpv6: '2001:db8::/56',
+  provider: 'aws',
+  networkSegments: [
+    {
+      ...createNetworkSegmentFromCidr('10.0.0.0/24', 0),
+      id: 'web',
+      name: 'Web, public',
+      description: 'Load balancers',
+      ipv6Cidr: '2001:db8:0:1::/64',
+      availabilityZone: 'us-east-1a',
+      tags: ['env=prod', 'tier=web'],
+      locked: true
+    },
+    {
+      ...createNetworkSegmentFromCidr('10.0.4.0/22', 1),
+      id: 'app',
+      name: 'App',
+      requestedHosts: 500,
+      growthPercent: 20
+    }
+  ]
+};
+
+const emptyPlan: NetworkPlan = { ...plan, networkSegments: [] };
+
+// Preview an import, failing the test when the text is rejected as a whole
+const preview = (text: string, target: NetworkPlan = emptyPlan): SegmentImportPreview => {
+  const result = previewSegmentImport(text, target, aws);
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+describe('segment CSV', () => {
+  it('imports an exported plan back at the same addresses', () => {
+    const { rows, ignoredColumns } = preview(generateSegmentCsv(plan));
+
+    expect(ignoredColumns).toEqual([]);
+    expect(rows.map(row => row.errors)).toEqual([[], []]);
+    expect(rows.map(row => row.segment)).toEqual(plan.networkSegments.map(segment => expect.objectContaining({
+      name: segment.name,
+      description: segment.description,
+      cidr: segment.cidr,
+      ipv6Cidr: segment.ipv6Cidr,
+      availabilityZone: segment.availabilityZone,
+      tags: segment.tags,
+      requestedHosts: segment.requestedHosts,
+      growthPercent: segment.growthPercent,
+      locked: segment.locked
+    })));
+  });
+
+  it('reads a prefix column as the prefix length of the next free block', () => {
+    const { rows } = preview('name,prefix\nWeb,24\nApp,/23', plan);
+
+    expect(rows.map(row => row.segment?.cidr)).toEqual(['10.0.1.0/24', '10.0.2.0/23']);
+  });
+
+  it('reports rows that overlap the plan or each other', () => {
+    const { rows } = preview('name,cidr,ipv6_cidr\nTaken,10.0.0.0/25,\nDual,10.0.1.0/24,2001:db8:0:1::/64\nNew,10.0.2.0/24,\nSame,10.0.2.0/25,', plan);
+
+    expect(rows.map(row => row.errors.length > 0)).toEqual([true, true, false, true]);
+    expect(rows[1].errors).toEqual([expect.stringContaining('overlaps network segment "Web, public"')]);
+  });
+
+  it('imports child segments inside their parent, which may be larger than the largest subnet', () => {
+    const regionalPlan: NetworkPlan = { baseNetwork: '10.0.0.0/8', provider: 'aws', networkSegments: [] };
+    const parent = { ...createNetworkSegmentFromCidr('10.16.0.0/12', 0), id: 'region', name: 'Region' };
+    const child = { ...createNetworkSegmentFromCidr('10.16.4.0/22', 1), id: 'app', name: 'App', parentId: 'region' };
+
+    const { rows } = preview(generateSegmentCsv({ ...regionalPlan, networkSegments: [child, parent] }), regionalPlan);
+    const [importedChild, importedParent] = rows.map(row => row.segment);
+
+    expect(rows.map(row => row.errors)).toEqual([[], []]);
+    expect(importedParent).toEqual(expect.objectContaining({ cidr: '10.16.0.0/12', parentId: undefined }));
+    expect(importedChild).toEqual(expect.objectContaining({ cidr: '10.16.4.0/22', parentId: importedParent?.id }));
+  });
+
+  it('places sized rows inside a parent named by another row and reports parent cycles', () => {
+    const { rows } = preview('name,cidr,size,parent\nShared,10.0.8.0/21,,\nApp,,24,Shared\nEast,,24,West\nWest,,24,East', plan);
+
+    expect(rows.map(row => row.segment?.cidr)).toEqual(['10.0.8.0/21', '10.0.8.0/24', undefined, undefined]);
+    expect(rows[1].segment?.parentId).toBe(rows[0].segment?.id);
+    expect(rows[2].errors).toEqual(['Parent "West" is nested inside this row']);
+  });
+
+  it('rejects IPv6 blocks outside the IPv6 base network', () => {
+    const { rows } = preview('name,size,ipv6_cidr\nWeb,24,2001:db9::/64');
+
+    expect(rows[0].errors).toEqual(['IPv6 CIDR 2001:db9::/64 is outside the IPv6 base network 2001:db8::/56']);
+  });
+});
@@ -0,0 +1,401 @@
+import {
+  childNetworkSegments,
+  cidrRangeContains,
+  cidrRangesOverlap,
+  findNextAvailableNetworkSegment,
+  getIpVersion,
+  createNetworkSegmentFromCidr,
+  isCidrAligned,
+  isValidCidr,
+  parseCidrRange,
+  planBaseNetworks,
+  validateNetworkSegmentPlacement
+} from './subnet-utils';
+import type { NetworkPlan, NetworkSegmentPlan } from './subnet-utils';
+import { providerSizeForHostCount, validateNewNetworkSegmentPrefix, validateProviderPrefix } from './providers';
+import type { CloudProviderProfile } from './providers';
+import { csvCell } from './export-utils';
+
+type ImportField = 'name' | 'description' | 'cidr' | 'ipv6Cidr' | 'size' | 'hosts' | 'growth' | 'tags' | 'availabilityZone' | 'locked' | 'parent';
+
+// Header names accepted for each field, compared ignoring case, spaces, dashes and underscores
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'segment', 'subnet', 'subnetname', 'networksegment'],
+  description: ['description', 'desc', 'notes', 'purpose'],
+  cidr: ['cidr', 'cidrblock', 'network', 'subnetcidr', 'ipv4cidr'],
+  ipv6Cidr: ['ipv6cidr', 'ipv6', 'ipv6cidrblock'],
+  size: ['size', 'prefix', 'prefixlength', 'prefixlen', 'masklength', 'bits'],
+  hosts: ['hosts', 'requestedhosts', 'hostcount', 'requiredhosts'],
+  growth: ['growth', 'growthpercent', 'headroom'],
+  tags: ['tags', 'labels'],
+  availabilityZone: ['az', 'availabilityzone', 'zone'],
+  locked: ['locked', 'lock', 'pinned'],
+  parent: ['parent', 'parentcidr', 'parentname', 'parentsegment'],
+};
+
+// Columns written by CSV export that are recalculated on import, so they are skipped without a warning
+const DERIVED_COLUMNS = ['usablehosts', 'firsthost', 'lasthost', 'subnetmask'];
+
+// Columns written by CSV export, in order
+const EXPORT_COLUMNS = [
+  'name', 'description', 'cidr', 'size', 'ipv6_cidr', 'requested_hosts', 'growth_percent',
+  'usable_hosts', 'first_host', 'last_host', 'availability_zone', 'tags', 'locked', 'parent'
+];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+export interface SegmentImportRow {
+  row: number; // Spreadsheet row number; the header is row 1
+  name: string;
+  placement: 'explicit' | 'next-free'; // Placed at the row's CIDR, or at the next free block of its size
+  segment?: NetworkSegmentPlan; // Set when the row can be imported
+  errors: string[];
+}
+
+export interface SegmentImportPreview {
+  rows: SegmentImportRow[];
+  ignoredColumns: string[]; // Header names that don't map to a network segment field
+}
+
+// A row whose fields have been read but not yet placed
+interface DraftRow extends SegmentImportRow {
+  cidr?: string;
+  size?: number;
+  parent?: string; // Name or CIDR of the network segment, in the plan or another row, the row is carved out of
+  details: Partial<NetworkSegmentPlan>;
+}
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]+/g, '');
+
+// Pick the delimiter that occurs most often in the header row (tabs for spreadsheet paste, commas for CSV files)
+export function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = ['\t', ',', ';'].map(delimiter => ({ delimiter, count: header.split(delimiter).length - 1 }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
+
+// Split delimited text into rows of cells, honoring double-quoted cells (RFC 4180)
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Generate a CSV file with one row per network segment; child segments name their parent by CIDR
+export function generateSegmentCsv(plan: NetworkPlan): string {
+  const cidrs = new Map(plan.networkSegments.map(segment => [segment.id, segment.cidr]));
+  const rows = plan.networkSegments.map(segment => [
+    segment.name,
+    segment.description ?? '',
+    segment.cidr,
+    segment.size.toString(),
+    segment.ipv6Cidr ?? '',
+    segment.requestedHosts?.toString() ?? '',
+    segment.growthPercent?.toString() ?? '',
+    segment.totalHosts.toString(),
+    segment.firstHost,
+    segment.lastHost,
+    segment.availabilityZone ?? '',
+    segment.tags?.join('; ') ?? '',
+    segment.locked ? 'true' : '',
+    segment.parentId ? cidrs.get(segment.parentId) ?? '' : ''
+  ]);
+
+  return [EXPORT_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// Check a row's IPv6 block against the plan's IPv6 base network and the provider, returning the problem or null
+const ipv6CidrError = (ipv6Cidr: string, plan: NetworkPlan, provider: CloudProviderProfile): string | null => {
+  if (!isValidCidr(ipv6Cidr) || getIpVersion(ipv6Cidr) !== 6) {
+    return `IPv6 CIDR "${ipv6Cidr}" is not a valid IPv6 CIDR`;
+  }
+  if (!isCidrAligned(ipv6Cidr)) {
+    return `IPv6 CIDR "${ipv6Cidr}" is not a network address`;
+  }
+  if (!plan.baseNetworkIpv6 || !isValidCidr(plan.baseNetworkIpv6)) {
+    return `IPv6 CIDR ${ipv6Cidr} is set but the plan has no IPv6 base network`;
+  }
+  if (!cidrRangeContains(parseCidrRange(plan.baseNetworkIpv6), parseCidrRange(ipv6Cidr))) {
+    return `IPv6 CIDR ${ipv6Cidr} is outside the IPv6 base network ${plan.baseNetworkIpv6}`;
+  }
+  return validateProviderPrefix(provider, parseCidrRange(ipv6Cidr).size, 6);
+};
+
+// Name the network segment whose IPv6 block overlaps a row's, whether in the plan or from an earlier row
+const ipv6OverlapError = (draft: DraftRow, occupied: NetworkSegmentPlan[]): string | null => {
+  const { ipv6Cidr } = draft.details;
+  if (!ipv6Cidr) return null;
+
+  const range = parseCidrRange(ipv6Cidr);
+  const other = occupied.find(segment => segment.ipv6Cidr && cidrRangesOverlap(range, parseCidrRange(segment.ipv6Cidr)));
+  return other ? `IPv6 CIDR ${ipv6Cidr} overlaps network segment "${other.name}" (${other.ipv6Cidr})` : null;
+};
+
+// Read one data row into a draft network segment, collecting every problem with it
+const readRow = (cells: string[], columns: Map<ImportField, number>, row: number, plan: NetworkPlan, provider: CloudProviderProfile): DraftRow => {
+  const value = (field: ImportField): string => {
+    const index = columns.get(field);
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  const name = value('name');
+  const cidr = value('cidr');
+  const ipv6Cidr = value('ipv6Cidr');
+  const sizeText = value('size').replace(/^\//, '');
+  const hostsText = value('hosts');
+  const growthText = value('growth').replace(/%$/, '');
+  const lockedText = value('locked').toLowerCase();
+  const version = getIpVersion(plan.baseNetwork);
+
+  const draft: DraftRow = { row, name, placement: cidr ? 'explicit' : 'next-free', parent: value('parent') || undefined, errors: [], details: {} };
+  if (!name) {
+    draft.errors.push('Name is empty');
+  }
+
+  let size: number | undefined;
+  if (sizeText) {
+    size = Number(sizeText);
+    if (!Number.isInteger(size)) {
+      draft.errors.push(`Size "${value('size')}" is not a prefix length (e.g., 24 or /24)`);
+      size = undefined;
+    }
+  }
+
+  let requestedHosts: number | undefined;
+  let growthPercent: number | undefined;
+  if (hostsText) {
+    requestedHosts = Number(hostsText.replace(/,/g, ''));
+    if (!Number.isInteger(requestedHosts) || requestedHosts <= 0) {
+      draft.errors.push(`Hosts "${hostsText}" is not a positive whole number`);
+      requestedHosts = undefined;
+    }
+  }
+  if (growthText) {
+    growthPercent = Number(growthText);
+    if (!Number.isFinite(growthPercent) || growthPercent < 0) {
+      draft.errors.push(`Growth "${value('growth')}" is not a non-negative percentage`);
+      growthPercent = undefined;
+    }
+  }
+
+  if (!TRUE_VALUES.includes(lockedText) && !FALSE_VALUES.includes(lockedText)) {
+    draft.errors.push(`Locked "${value('locked')}" must be true or false`);
+  }
+
+  if (cidr) {
+    draft.cidr = cidr;
+    if (size !== undefined && !cidr.endsWith(`/${size}`)) {
+      draft.errors.push(`Size /${size} does not match CIDR ${cidr}`);
+    }
+  } else if (size !== undefined) {
+    draft.size = size;
+  } else if (requestedHosts !== undefined) {
+    const hostSize = providerSizeForHostCount(provider, requestedHosts, growthPercent ?? 0, version);
+    if (hostSize === null) {
+      draft.errors.push(`No ${provider.name} network segment size fits ${requestedHosts.toLocaleString()} hosts`);
+    } else {
+      draft.size = hostSize;
+    }
+  } else if (!hostsText && !sizeText) {
+    draft.errors.push('Row needs a CIDR, size or host count');
+  }
+
+  const ipv6Error = ipv6Cidr ? ipv6CidrError(ipv6Cidr, plan, provider) : null;
+  if (ipv6Error) {
+    draft.errors.push(ipv6Error);
+  }
+
+  const tags = [...new Set(value('tags').split(/[;,]/).map(tag => tag.trim()).filter(Boolean))];
+  draft.details = {
+    name,
+    description: value('description') || undefined,
+    ipv6Cidr: ipv6Cidr || undefined,
+    availabilityZone: value('availabilityZone') || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    requestedHosts,
+    growthPercent: requestedHosts !== undefined ? growthPercent : undefined,
+    locked: TRUE_VALUES.includes(lockedText) || undefined
+  };
+  return draft;
+};
+
+// Read CSV or TSV text and work out where each row's network segment would go, without changing the plan.
+// Rows with a CIDR are placed there; the others take the next free block of their size once every
+// explicit row is placed. Rows with a parent are placed inside it, after it. Rows with errors are
+// reported and left out of the placement.
+export function previewSegmentImport(
+  text: string,
+  plan: NetworkPlan,
+  provider: CloudProviderProfile
+): SegmentImportPreview | { error: string } {
+  const records = parseDelimited(text, detectDelimiter(text));
+  const [header, ...dataRecords] = records;
+  if (!header || header.every(cell => !cell.trim())) {
+    return { error: 'Paste or choose a file with a header row (e.g., name,cidr,description)' };
+  }
+
+  const columns = new Map<ImportField, number>();
+  const ignoredColumns: string[] = [];
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    const field = (Object.keys(COLUMN_ALIASES) as ImportField[]).find(key => COLUMN_ALIASES[key].includes(normalized));
+    if (field && !columns.has(field)) {
+      columns.set(field, index);
+    } else if (cell.trim() && !DERIVED_COLUMNS.includes(normalized)) {
+      ignoredColumns.push(cell.trim());
+    }
+  });
+
+  if (!columns.has('name')) {
+    return { error: 'The header row needs a name column' };
+  }
+  if (!columns.has('cidr') && !columns.has('size') && !columns.has('hosts')) {
+    return { error: 'The header row needs a cidr, size or hosts column' };
+  }
+
+  const drafts = dataRecords
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim()))
+    .map(({ cells, row }) => readRow(cells, columns, row, plan, provider));
+
+  const occupied = [...plan.networkSegments];
+  const baseNetworks = planBaseNetworks(plan);
+  const version = getIpVersion(plan.baseNetwork);
+
+  // Find each row's parent, by CIDR or name, among the plan's network segments and the other rows
+  const parents = new Map<DraftRow, NetworkSegmentPlan | DraftRow>();
+  for (const draft of drafts) {
+    if (!draft.parent) continue;
+    const reference = draft.parent;
+    const matches = [
+      ...plan.networkSegments.filter(segment => segment.cidr === reference || segment.name === reference),
+      ...drafts.filter(other => other !== draft && (other.cidr === reference || other.name === reference))
+    ];
+    if (matches.length === 0) {
+      draft.errors.push(`Parent "${reference}" is not a network segment in the plan or the import`);
+    } else if (matches.length > 1) {
+      draft.errors.push(`Parent "${reference}" matches ${matches.length} network segments; give its CIDR instead`);
+    } else {
+      parents.set(draft, matches[0]);
+    }
+  }
+
+  // Rows are placed level by level, so a parent row is placed before the rows carved out of it
+  const depth = (draft: DraftRow, seen = new Set<DraftRow>()): number => {
+    const parent = parents.get(draft);
+    if (!parent || !('row' in parent)) return 0;
+    if (seen.has(draft)) return Infinity;
+    seen.add(draft);
+    return depth(parent, seen) + 1;
+  };
+  const depths = new Map(drafts.map(draft => [draft, depth(draft)]));
+  for (const draft of drafts) {
+    if (depths.get(draft) === Infinity) {
+      draft.errors.push(`Parent "${draft.parent}" is nested inside this row`);
+    }
+  }
+  const levels = [...new Set(depths.values())].filter(Number.isFinite).sort((a, b) => a - b);
+
+  // Parent segment of a row, or an error when the parent row could not be placed
+  const placedParent = (draft: DraftRow): { parent?: NetworkSegmentPlan } | { error: string } => {
+    const parent = parents.get(draft);
+    if (!parent || !('row' in parent)) return { parent };
+    return parent.segment
+      ? { parent: parent.segment }
+      : { error: `Parent row ${parent.row} ("${parent.name}") can't be imported` };
+  };
+
+  // Prefix lengths follow the rules for adding a network segment by hand: blocks larger than the
+  // provider's largest subnet are allowed, since they can hold child segments
+  for (const level of levels) {
+    const levelDrafts = drafts.filter(draft => depths.get(draft) === level && draft.errors.length === 0);
+
+    // Explicit rows first, so rows that only give a size can't take their space
+    for (const draft of levelDrafts) {
+      if (!draft.cidr) continue;
+
+      const resolved = placedParent(draft);
+      if ('error' in resolved) {
+        draft.errors.push(resolved.error);
+        continue;
+      }
+      const { parent } = resolved;
+      const placementErrors = validateNetworkSegmentPlacement(draft.cidr, baseNetworks, childNetworkSegments(occupied, parent?.id), parent, plan.reservedRanges);
+      if (placementErrors.length > 0) {
+        draft.errors.push(...placementErrors);
+        continue;
+      }
+      const placement = createNetworkSegmentFromCidr(draft.cidr, occupied.length + 1);
+      const providerError = validateNewNetworkSegmentPrefix(provider, placement.size, version);
+      const overlapError = ipv6OverlapError(draft, occupied);
+      if (providerError) draft.errors.push(providerError);
+      if (overlapError) draft.errors.push(overlapError);
+      if (draft.errors.length > 0) continue;
+      draft.segment = { ...placement, ...draft.details, parentId: parent?.id };
+      occupied.push(draft.segment);
+    }
+
+    for (const draft of levelDrafts) {
+      if (draft.size === undefined) continue;
+
+      const resolved = placedParent(draft);
+      if ('error' in resolved) {
+        draft.errors.push(resolved.error);
+        continue;
+      }
+      const { parent } = resolved;
+      const providerError = validateNewNetworkSegmentPrefix(provider, draft.size, version);
+      const overlapError = ipv6OverlapError(draft, occupied);
+      if (providerError) draft.errors.push(providerError);
+      if (overlapError) draft.errors.push(overlapError);
+      if (draft.errors.length > 0) continue;
+      const placement = findNextAvailableNetworkSegment(parent?.cidr ?? baseNetworks, childNetworkSegments(occupied, parent?.id), draft.size, plan.reservedRanges);
+      if (!placement) {
+        draft.errors.push(parent ? `No available space for a /${draft.size} network segment in "${parent.name}"` : `No available space for a /${draft.size} network segment`);
+        continue;
+      }
+      draft.segment = { ...placement, ...draft.details, parentId: parent?.id };
+      occupied.push(draft.segment);
+    }
+  }
+
+  return {
+    rows: drafts.map(({ row, name, placement, segment, errors }) => ({ row, name, placement, segment, errors })),
+    ignoredColumns
+  };
+}
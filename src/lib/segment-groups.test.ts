@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { groupBlockCidr, setNetworkSegmentGroupZoneCount } from './segment-groups';
+import { getCloudProviderProfile } from './providers';
+import type { NetworkSegmentGroup } from './subnet-utils';
+
+// A /24 tier named with a provider's zone names
+const groupFor = (providerId: string): NetworkSegmentGroup => {
+  const provider = getCloudProviderProfile(providerId);
+  return { id: 'private', name: 'private', size: 24, zoneCount: 0, zonePrefix: provider.zonePrefix, zoneNaming: provider.zoneNaming };
+};
+
+describe('setNetworkSegmentGroupZoneCount', () => {
+  it('places one copy per zone side by side in one aligned block', () => {
+    const result = setNetworkSegmentGroupZoneCount('10.0.0.0/16', [], groupFor('aws'), 3);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.networkSegments.map(segment => [segment.name, segment.cidr, segment.availabilityZone])).toEqual([
+      ['private-a', '10.0.0.0/24', 'us-east-1a'],
+      ['private-b', '10.0.1.0/24', 'us-east-1b'],
+      ['private-c', '10.0.2.0/24', 'us-east-1c']
+    ]);
+    expect(groupBlockCidr(result.group, result.networkSegments)).toBe('10.0.0.0/22');
+  });
+
+  it('numbers the zones on Azure', () => {
+    const result = setNetworkSegmentGroupZoneCount('10.0.0.0/16', [], groupFor('azure'), 3);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.networkSegments.map(segment => [segment.name, segment.availabilityZone])).toEqual([
+      ['private-1', '1'],
+      ['private-2', '2'],
+      ['private-3', '3']
+    ]);
+  });
+});
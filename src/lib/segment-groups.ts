@@ -0,0 +1,207 @@
+import {
+  addressBits,
+  bigIntToIp,
+  blockSize,
+  childNetworkSegments,
+  cidrRangesOverlap,
+  createNetworkSegmentFromCidr,
+  descendantNetworkSegmentIds,
+  findNextAvailableNetworkSegment,
+  networkSegmentFitsInBase,
+  overlappingReservedRanges,
+  parseCidrRange,
+  relocateNetworkSegment
+} from './subnet-utils';
+import type { NetworkSegmentGroup, NetworkSegmentPlan, ReservedRange } from './subnet-utils';
+
+// One letter per zone when zones are lettered, so a group can span at most 26 zones
+export const MAX_GROUP_ZONES = 26;
+
+// Zone of the copy at an index: a, b, c, ... or 1, 2, 3, ...
+const zoneSuffix = (group: Pick<NetworkSegmentGroup, 'zoneNaming'>, index: number): string =>
+  group.zoneNaming === 'number' ? String(index + 1) : String.fromCharCode(97 + index);
+
+// Zone name of the copy at an index, e.g. "us-east-1a", or "1" on Azure
+export function groupZoneName(group: Pick<NetworkSegmentGroup, 'zonePrefix' | 'zoneNaming'>, index: number): string {
+  return `${group.zonePrefix ?? ''}${zoneSuffix(group, index)}`;
+}
+
+// Copies of a zone group, in address order
+export function groupCopies(segments: NetworkSegmentPlan[], groupId: string): NetworkSegmentPlan[] {
+  return segments
+    .filter(segment => segment.groupId === groupId)
+    .sort((a, b) => {
+      const startA = parseCidrRange(a.cidr).start;
+      const startB = parseCidrRange(b.cidr).start;
+      return startA < startB ? -1 : startA > startB ? 1 : 0;
+    });
+}
+
+// Prefix length of the aligned block holding every copy, e.g. a /23 for two /24 copies or a /22 for three
+export function groupBlockSize(size: number, zoneCount: number): number {
+  return size - Math.ceil(Math.log2(zoneCount));
+}
+
+// The aligned block a group's copies sit in, or null when they aren't side by side in one block
+export function groupBlockCidr(group: NetworkSegmentGroup, segments: NetworkSegmentPlan[]): string | null {
+  const copies = groupCopies(segments, group.id);
+  if (copies.length === 0) return null;
+
+  const { version, start } = parseCidrRange(copies[0].cidr);
+  const prefix = groupBlockSize(group.size, Math.max(copies.length, group.zoneCount));
+  const length = blockSize(prefix, version);
+  const blockStart = start - (start % length);
+  const inBlock = copies.every(copy => {
+    const range = parseCidrRange(copy.cidr);
+    return range.start >= blockStart && range.end < blockStart + length;
+  });
+  return inBlock ? `${bigIntToIp(blockStart, version)}/${prefix}` : null;
+}
+
+// Add or remove copies so a zone group spans the given number of zones. Copies of removed zones go
+// with their child segments. New copies take free slots in the aligned block around the existing
+// copies; when it has no room, the whole group moves to the first free block that holds every zone.
+export function setNetworkSegmentGroupZoneCount(
+  baseNetwork: string | string[],
+  segments: NetworkSegmentPlan[],
+  group: NetworkSegmentGroup,
+  zoneCount: number,
+  reservedRanges: ReservedRange[] = []
+): { group: NetworkSegmentGroup; networkSegments: NetworkSegmentPlan[] } | { error: string } {
+  if (!Number.isInteger(zoneCount) || zoneCount < 1 || zoneCount > MAX_GROUP_ZONES) {
+    return { error: `A zone group spans 1 to ${MAX_GROUP_ZONES} zones` };
+  }
+
+  const updatedGroup = { ...group, zoneCount };
+  const copies = groupCopies(segments, group.id);
+  if (zoneCount <= copies.length) {
+    const removedIds = new Set<string>();
+    for (const copy of copies.slice(zoneCount)) {
+      removedIds.add(copy.id);
+      descendantNetworkSegmentIds(segments, copy.id).forEach(id => removedIds.add(id));
+    }
+    return { group: updatedGroup, networkSegments: segments.filter(segment => !removedIds.has(segment.id)) };
+  }
+
+  const parent = group.parentId ? segments.find(segment => segment.id === group.parentId) : undefined;
+  if (group.parentId && !parent) {
+    return { error: `The parent network segment of zone group "${group.name}" no longer exists` };
+  }
+  const container = parent?.cidr ?? baseNetwork;
+  const { version } = parseCidrRange(Array.isArray(container) ? container[0] : container);
+  if (group.size > addressBits(version)) {
+    return { error: `A /${group.size} is not a valid IPv${version} network segment size` };
+  }
+
+  const siblings = childNetworkSegments(segments, group.parentId).filter(segment => segment.groupId !== group.id);
+  const copyLength = blockSize(group.size, version);
+  const cidrAt = (start: bigint) => `${bigIntToIp(start, version)}/${group.size}`;
+  const isFree = (start: bigint) => {
+    const candidate = createNetworkSegmentFromCidr(cidrAt(start), 0);
+    const range = parseCidrRange(candidate.cidr);
+    return networkSegmentFitsInBase(candidate, container)
+      && !siblings.some(sibling => cidrRangesOverlap(parseCidrRange(sibling.cidr), range))
+      && overlappingReservedRanges(candidate.cidr, reservedRanges).length === 0;
+  };
+
+  // Start address of every copy, the existing copies first
+  let starts: bigint[] | null = null;
+  const blockCidr = groupBlockCidr(updatedGroup, segments);
+  if (blockCidr) {
+    const block = parseCidrRange(blockCidr);
+    const existingStarts = copies.map(copy => parseCidrRange(copy.cidr).start);
+    const freeStarts: bigint[] = [];
+    for (let start = block.start; start <= block.end; start += copyLength) {
+      if (!existingStarts.includes(start) && isFree(start)) freeStarts.push(start);
+    }
+    if (freeStarts.length >= zoneCount - copies.length) {
+      starts = [...existingStarts, ...freeStarts.slice(0, zoneCount - copies.length)];
+    }
+  }
+
+  if (!starts) {
+    const prefix = groupBlockSize(group.size, zoneCount);
+    const block = findNextAvailableNetworkSegment(container, siblings, prefix, reservedRanges);
+    if (!block) {
+      return { error: `No aligned /${prefix} block is free for ${zoneCount} /${group.size} copies of zone group "${group.name}"` };
+    }
+    const blockStart = parseCidrRange(block.cidr).start;
+    starts = Array.from({ length: zoneCount }, (_, index) => blockStart + BigInt(index) * copyLength);
+  }
+
+  // Move existing copies that changed block, with their child segments
+  const copyStarts = starts;
+  let networkSegments = segments;
+  copies.forEach((copy, index) => {
+    if (parseCidrRange(copy.cidr).start === copyStarts[index]) return;
+    networkSegments = relocateNetworkSegment(networkSegments, copy.id, createNetworkSegmentFromCidr(cidrAt(copyStarts[index]), 0)) ?? networkSegments;
+  });
+
+  // New copies take the first zones no copy uses yet, and follow the group's last copy in the list
+  const usedZones = new Set(copies.map(copy => copy.availabilityZone));
+  const zoneIndexes = Array.from({ length: MAX_GROUP_ZONES }, (_, index) => index)
+    .filter(index => !usedZones.has(groupZoneName(group, index)));
+  const newCopies = starts.slice(copies.length).map((start, position): NetworkSegmentPlan => {
+    const zoneIndex = zoneIndexes[position];
+    return {
+      ...createNetworkSegmentFromCidr(cidrAt(start), segments.length + position + 1),
+      name: `${group.name}-${zoneSuffix(group, zoneIndex)}`,
+      description: group.description,
+      availabilityZone: groupZoneName(group, zoneIndex),
+      parentId: group.parentId,
+      groupId: group.id
+    };
+  });
+
+  const lastCopyIndex = networkSegments.reduce((last, segment, index) => segment.groupId === group.id ? index : last, -1);
+  const insertAt = lastCopyIndex >= 0 ? lastCopyIndex + 1 : networkSegments.length;
+  return {
+    group: updatedGroup,
+    networkSegments: [...networkSegments.slice(0, insertAt), ...newCopies, ...networkSegments.slice(insertAt)]
+  };
+}
+
+// Remove a zone group and its copies, with their child segments
+export function removeNetworkSegmentGroup(segments: NetworkSegmentPlan[], groupId: string): NetworkSegmentPlan[] {
+  const removedIds = new Set<string>();
+  for (const copy of groupCopies(segments, groupId)) {
+    removedIds.add(copy.id);
+    descendantNetworkSegmentIds(segments, copy.id).forEach(id => removedIds.add(id));
+  }
+  return segments.filter(segment => !removedIds.has(segment.id));
+}
+
+// Match zone groups to the copies left after network segments were removed one by one:
+// each group's zone count follows its copies, and groups without copies are dropped
+export function pruneNetworkSegmentGroups(groups: NetworkSegmentGroup[], segments: NetworkSegmentPlan[]): NetworkSegmentGroup[] {
+  return groups
+    .map(group => ({ group, copyCount: segments.filter(segment => segment.groupId === group.id).length }))
+    .filter(({ copyCount }) => copyCount > 0)
+    .map(({ group, copyCount }) => copyCount === group.zoneCount ? group : { ...group, zoneCount: copyCount });
+}
+
+// Check that every zone group has one copy per zone, all of the group's size
+export function validateNetworkSegmentGroups(groups: NetworkSegmentGroup[], segments: NetworkSegmentPlan[]): string[] {
+  const errors: string[] = [];
+  const groupIds = new Set(groups.map(group => group.id));
+
+  for (const group of groups) {
+    const copies = groupCopies(segments, group.id);
+    if (copies.length !== group.zoneCount) {
+      errors.push(`Zone group "${group.name}" has ${copies.length} of its ${group.zoneCount} zone copies`);
+    }
+    for (const copy of copies) {
+      if (copy.size !== group.size) {
+        errors.push(`Network segment "${copy.name}" is a /${copy.size} but its zone group "${group.name}" uses /${group.size}`);
+      }
+    }
+  }
+
+  for (const segment of segments) {
+    if (segment.groupId && !groupIds.has(segment.groupId)) {
+      errors.push(`Network segment "${segment.name}" belongs to a zone group that no longer exists`);
+    }
+  }
+
+  return errors;
+}
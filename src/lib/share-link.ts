@@ -0,0 +1,321 @@
+import {
+  applyAddressReservation,
+  createHostReservationId,
+  createNetworkSegmentFromCidr,
+  createNetworkSegmentGroupId,
+  createReservedRangeId,
+  getIpVersion,
+  isValidCidr,
+  validateBaseNetworks,
+  validateReservedRanges
+} from './subnet-utils';
+import type { DhcpSettings, HostReservation, NetworkPlan, NetworkSegmentGroup, NetworkSegmentPlan, ReservedRange } from './subnet-utils';
+import { getCloudProviderProfile } from './providers';
+import { validateDnsDomain } from './dns-export';
+
+// Shared plans live in the URL fragment (#plan=...), so they never reach the server
+export const SHARE_LINK_PARAM = 'plan';
+const SHARE_LINK_VERSION = 1;
+
+// Longer fragments get truncated by chat clients and mail programs
+export const MAX_SHARE_FRAGMENT_LENGTH = 8000;
+// Guards against links that decompress to an unreasonable size
+const MAX_SHARED_PLAN_BYTES = 1_000_000;
+
+// Only the fields that can't be recalculated from the CIDR are shared. IDs aren't shared, so a
+// child segment refers to its parent, and a zone group copy to its group, by position in the list.
+type SharedNetworkSegment = Pick<
+  NetworkSegmentPlan,
+  'name' | 'description' | 'cidr' | 'ipv6Cidr' | 'requestedHosts' | 'growthPercent' | 'locked' | 'availabilityZone' | 'tags' | 'cloudResourceId' | 'dhcp'
+> & { parent?: number; group?: number; hosts?: SharedHostReservation[] };
+
+type SharedHostReservation = Omit<HostReservation, 'id'>;
+
+type SharedNetworkSegmentGroup = Omit<NetworkSegmentGroup, 'id' | 'parentId'> & { parent?: number };
+
+interface SharedPlanPayload {
+  version: number;
+  baseNetwork: string;
+  secondaryBaseNetworks?: string[];
+  baseNetworkIpv6?: string;
+  reservedRanges?: Pick<ReservedRange, 'cidr' | 'reason'>[];
+  provider?: string;
+  dnsDomain?: string;
+  networkSegments: SharedNetworkSegment[];
+  networkSegmentGroups?: SharedNetworkSegmentGroup[];
+}
+
+// Run bytes through a compression or decompression stream, stopping once the output exceeds the limit
+const transformBytes = async (
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+  limit = Infinity
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new RangeError('Shared plan is too large');
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+// URL-safe base64 without padding
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, character => character.charCodeAt(0));
+};
+
+// Read the share token from a URL fragment
+const shareToken = (hash: string): string | null => {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_LINK_PARAM);
+};
+
+// Check whether a URL fragment carries a shared plan
+export function hasSharedPlan(hash: string): boolean {
+  return shareToken(hash) !== null;
+}
+
+// Build a link that opens the plan read-only
+export async function createShareLink(plan: NetworkPlan, pageUrl: string): Promise<{ url: string } | { error: string }> {
+  const parentIndexes = new Map(plan.networkSegments.map((segment, index) => [segment.id, index]));
+  const groupIndexes = new Map(plan.networkSegmentGroups?.map((group, index) => [group.id, index]));
+  const payload: SharedPlanPayload = {
+    version: SHARE_LINK_VERSION,
+    baseNetwork: plan.baseNetwork,
+    secondaryBaseNetworks: plan.secondaryBaseNetworks,
+    baseNetworkIpv6: plan.baseNetworkIpv6,
+    reservedRanges: plan.reservedRanges?.map(({ cidr, reason }) => ({ cidr, reason })),
+    provider: plan.provider,
+    dnsDomain: plan.dnsDomain,
+    networkSegments: plan.networkSegments.map(segment => ({
+      name: segment.name,
+      description: segment.description,
+      cidr: segment.cidr,
+      ipv6Cidr: segment.ipv6Cidr,
+      requestedHosts: segment.requestedHosts,
+      growthPercent: segment.growthPercent,
+      locked: segment.locked,
+      availabilityZone: segment.availabilityZone,
+      tags: segment.tags,
+      cloudResourceId: segment.cloudResourceId,
+      parent: segment.parentId ? parentIndexes.get(segment.parentId) : undefined,
+      group: segment.groupId ? groupIndexes.get(segment.groupId) : undefined,
+      hosts: segment.hostReservations?.map(({ address, name, mac, notes }) => ({ address, name, mac, notes })),
+      dhcp: segment.dhcp
+    })),
+    networkSegmentGroups: plan.networkSegmentGroups?.map(group => ({
+      name: group.name,
+      description: group.description,
+      size: group.size,
+      zoneCount: group.zoneCount,
+      zonePrefix: group.zonePrefix,
+      zoneNaming: group.zoneNaming,
+      parent: group.parentId ? parentIndexes.get(group.parentId) : undefined
+    }))
+  };
+
+  const compressed = await transformBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  const token = toBase64Url(compressed);
+  if (token.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    return {
+      error: `This plan is too large to share as a link (${token.length.toLocaleString()} of ${MAX_SHARE_FRAGMENT_LENGTH.toLocaleString()} characters). Export it as a file instead.`
+    };
+  }
+
+  const url = new URL(pageUrl);
+  url.hash = `${SHARE_LINK_PARAM}=${token}`;
+  return { url: url.toString() };
+}
+
+// Keep the well-typed fields of shared DHCP settings; plan validation checks the addresses themselves
+const sharedDhcpSettings = (dhcp: unknown): DhcpSettings | undefined => {
+  if (typeof dhcp !== 'object' || dhcp === null) return undefined;
+  const { poolStart, poolEnd, gateway, dnsServers, leaseTime } = dhcp as Partial<Record<keyof DhcpSettings, unknown>>;
+  const hasPool = typeof poolStart === 'string' && typeof poolEnd === 'string';
+  return {
+    poolStart: hasPool ? poolStart : undefined,
+    poolEnd: hasPool ? poolEnd : undefined,
+    gateway: typeof gateway === 'string' ? gateway : undefined,
+    dnsServers: Array.isArray(dnsServers) && dnsServers.every(server => typeof server === 'string') ? dnsServers : undefined,
+    leaseTime: typeof leaseTime === 'number' ? leaseTime : undefined
+  };
+};
+
+// Check a decoded payload and rebuild the plan, recalculating every derived field
+const planFromPayload = (payload: unknown): { plan: NetworkPlan } | { error: string } => {
+  if (typeof payload !== 'object' || payload === null) {
+    return { error: 'the link does not contain a network plan' };
+  }
+
+  const { version, baseNetwork, secondaryBaseNetworks, baseNetworkIpv6, reservedRanges, provider, dnsDomain, networkSegments, networkSegmentGroups } = payload as Partial<SharedPlanPayload>;
+  if (version !== SHARE_LINK_VERSION) {
+    return { error: `the link uses an unsupported format version (${String(version)})` };
+  }
+  if (typeof baseNetwork !== 'string' || !isValidCidr(baseNetwork)) {
+    return { error: 'the base network is not a valid CIDR' };
+  }
+  if (secondaryBaseNetworks !== undefined && (!Array.isArray(secondaryBaseNetworks) || !secondaryBaseNetworks.every(cidr => typeof cidr === 'string')
+    || validateBaseNetworks([baseNetwork, ...secondaryBaseNetworks]).length > 0)) {
+    return { error: 'the secondary base network ranges are not valid' };
+  }
+  if (baseNetworkIpv6 !== undefined && (typeof baseNetworkIpv6 !== 'string' || !isValidCidr(baseNetworkIpv6) || getIpVersion(baseNetworkIpv6) !== 6)) {
+    return { error: 'the IPv6 base network is not a valid IPv6 CIDR' };
+  }
+  if (reservedRanges !== undefined && (!Array.isArray(reservedRanges)
+    || !reservedRanges.every(range => typeof range?.cidr === 'string' && typeof range.reason === 'string')
+    || validateReservedRanges([baseNetwork], reservedRanges).length > 0)) {
+    return { error: 'the reserved ranges are not valid' };
+  }
+  if (dnsDomain !== undefined && (typeof dnsDomain !== 'string' || validateDnsDomain(dnsDomain))) {
+    return { error: 'the DNS domain is not valid' };
+  }
+  if (!Array.isArray(networkSegments)) {
+    return { error: 'the link does not contain any network segments' };
+  }
+  if (networkSegmentGroups !== undefined && (!Array.isArray(networkSegmentGroups) || !networkSegmentGroups.every(group =>
+    typeof group?.name === 'string' && Number.isInteger(group.size) && Number.isInteger(group.zoneCount) && group.zoneCount >= 1
+  ))) {
+    return { error: 'the zone groups are not valid' };
+  }
+
+  const profile = getCloudProviderProfile(typeof provider === 'string' ? provider : undefined);
+  const segments: NetworkSegmentPlan[] = [];
+
+  for (const [index, segment] of networkSegments.entries()) {
+    if (typeof segment?.name !== 'string' || typeof segment.cidr !== 'string' || !isValidCidr(segment.cidr)) {
+      return { error: `network segment ${index + 1} does not have a valid name and CIDR` };
+    }
+    if (segment.ipv6Cidr !== undefined && (typeof segment.ipv6Cidr !== 'string' || !isValidCidr(segment.ipv6Cidr))) {
+      return { error: `network segment "${segment.name}" has an invalid IPv6 block` };
+    }
+    if (segment.hosts !== undefined && (!Array.isArray(segment.hosts)
+      || !segment.hosts.every(host => typeof host?.address === 'string' && typeof host.name === 'string'))) {
+      return { error: `network segment "${segment.name}" has invalid host reservations` };
+    }
+
+    segments.push({
+      ...createNetworkSegmentFromCidr(segment.cidr, index + 1),
+      name: segment.name,
+      description: typeof segment.description === 'string' ? segment.description : undefined,
+      ipv6Cidr: segment.ipv6Cidr,
+      requestedHosts: typeof segment.requestedHosts === 'number' ? segment.requestedHosts : undefined,
+      growthPercent: typeof segment.growthPercent === 'number' ? segment.growthPercent : undefined,
+      locked: segment.locked === true || undefined,
+      availabilityZone: typeof segment.availabilityZone === 'string' ? segment.availabilityZone : undefined,
+      tags: Array.isArray(segment.tags) && segment.tags.every(tag => typeof tag === 'string') ? segment.tags : undefined,
+      cloudResourceId: typeof segment.cloudResourceId === 'string' ? segment.cloudResourceId : undefined,
+      hostReservations: segment.hosts?.length
+        ? segment.hosts.map(host => ({
+          id: createHostReservationId(),
+          address: host.address,
+          name: host.name,
+          mac: typeof host.mac === 'string' ? host.mac : undefined,
+          notes: typeof host.notes === 'string' ? host.notes : undefined
+        }))
+        : undefined,
+      dhcp: sharedDhcpSettings(segment.dhcp)
+    });
+  }
+
+  // Link child segments to their parents once every segment has an ID
+  networkSegments.forEach((segment, index) => {
+    const parent = segments[segment.parent as number];
+    if (Number.isInteger(segment.parent) && parent && segment.parent !== index) {
+      segments[index].parentId = parent.id;
+    }
+  });
+
+  // Zone groups get new IDs too; their copies and nested groups are linked by position
+  const groups: NetworkSegmentGroup[] = (networkSegmentGroups ?? []).map(group => ({
+    id: createNetworkSegmentGroupId(),
+    name: group.name,
+    description: typeof group.description === 'string' ? group.description : undefined,
+    size: group.size,
+    zoneCount: group.zoneCount,
+    zonePrefix: typeof group.zonePrefix === 'string' ? group.zonePrefix : undefined,
+    zoneNaming: group.zoneNaming === 'number' ? 'number' : undefined,
+    parentId: Number.isInteger(group.parent) ? segments[group.parent as number]?.id : undefined
+  }));
+  networkSegments.forEach((segment, index) => {
+    const group = groups[segment.group as number];
+    if (Number.isInteger(segment.group) && group) {
+      segments[index].groupId = group.id;
+    }
+  });
+
+  return {
+    plan: {
+      baseNetwork,
+      secondaryBaseNetworks: secondaryBaseNetworks?.length ? secondaryBaseNetworks : undefined,
+      baseNetworkIpv6,
+      reservedRanges: reservedRanges?.length ? reservedRanges.map(({ cidr, reason }) => ({ id: createReservedRangeId(), cidr, reason })) : undefined,
+      provider: profile.id,
+      dnsDomain,
+      networkSegments: applyAddressReservation(segments, version => profile.reservation[version]),
+      networkSegmentGroups: groups.length > 0 ? groups : undefined
+    }
+  };
+};
+
+// Decode the plan carried by a URL fragment
+export async function readShareLink(hash: string): Promise<{ plan: NetworkPlan } | { error: string }> {
+  const token = shareToken(hash);
+  if (!token) {
+    return { error: 'The link does not contain a shared plan' };
+  }
+  if (token.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    return { error: 'The shared plan in this link is too large to open' };
+  }
+
+  let json: string;
+  try {
+    const bytes = await transformBytes(fromBase64Url(token), new DecompressionStream('deflate-raw'), MAX_SHARED_PLAN_BYTES);
+    json = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (error) {
+    return {
+      error: error instanceof RangeError
+        ? 'The shared plan in this link is too large to open'
+        : 'The link is damaged or incomplete; ask for it to be shared again'
+    };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    return { error: 'The link is damaged or incomplete; ask for it to be shared again' };
+  }
+
+  const result = planFromPayload(payload);
+  return 'error' in result ? { error: `The shared plan could not be opened: ${result.error}` } : result;
+}
+
+// Remove a shared plan from the address bar without adding a history entry
+export function clearShareLink(): void {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', `${pathname}${search}`);
+}
@@ -1,3 +1,12 @@
+export type IpVersion = 4 | 6;
+
+export interface CidrRange {
+  version: IpVersion;
+  start: bigint;
+  end: bigint;
+  size: number; // Prefix length
+}
+
 export interface NetworkSegmentInfo {
   networkAddress: string;
   broadcastAddress: string;
@@ -20,6 +29,35 @@ export interface NetworkSegmentPlan {
   totalHosts: number;
   subnetMask: string;
   size: number; // Number of bits for subnet mask
+  ipv6Cidr?: string; // Paired IPv6 block for dual-stack plans
+  requestedHosts?: number; // Host count the segment was sized for
+  growthPercent?: number; // Growth headroom applied on top of requestedHosts
+  locked?: boolean; // Locked segments are never moved by layout optimization
+  availabilityZone?: string; // e.g., us-east-1a
+  tags?: string[]; // Free-form labels, e.g., from a spreadsheet
+  cloudResourceId?: string; // ID of the cloud subnet the segment was imported from (e.g., subnet-0a1b2c3d)
+  parentId?: string; // Network segment this one is carved out of; top-level segments are carved out of the base network
+  groupId?: string; // Zone group this segment is one zone's copy of
+  hostReservations?: HostReservation[]; // Static addresses handed out inside the segment
+  dhcp?: DhcpSettings; // DHCP server settings; unset fields take their defaults
+}
+
+// DHCP settings of a network segment for the DHCP server config exports
+export interface DhcpSettings {
+  poolStart?: string; // Set together with poolEnd; defaults to the largest run of unreserved usable addresses
+  poolEnd?: string;
+  gateway?: string; // Defaults to the first usable address
+  dnsServers?: string[];
+  leaseTime?: number; // Seconds
+}
+
+// A static address, or range of addresses, assigned to a host inside a network segment
+export interface HostReservation {
+  id: string;
+  address: string; // A single IP (10.0.1.10) or an inclusive range (10.0.1.10-10.0.1.20)
+  name: string; // e.g., nat-gateway-a
+  mac?: string; // e.g., 02:42:ac:11:00:02
+  notes?: string;
 }
 
 export interface BaseNetwork {
@@ -29,9 +67,46 @@ export interface BaseNetwork {
   totalHosts: number;
   availableHosts: number;
   usedHosts: number;
+  secondaryCidrs: string[]; // Further ranges of the base network, in allocation preference order
+  ipv6Cidr?: string; // Optional IPv6 base prefix for dual-stack plans
   networkSegments: NetworkSegmentPlan[];
 }
 
+// A range inside the base network that must never be allocated (e.g., a VPN client pool)
+export interface ReservedRange {
+  id: string;
+  cidr: string;
+  reason: string;
+}
+
+// How the zones of a zone group are named: a, b, c (AWS, Google Cloud) or 1, 2, 3 (Azure)
+export type ZoneNaming = 'letter' | 'number';
+
+// One tier (e.g., "private /24") replicated across availability zones. Its copies are network
+// segments with the group's groupId, placed side by side in one aligned block.
+export interface NetworkSegmentGroup {
+  id: string;
+  name: string; // Copies are named after the group and their zone, e.g. "private-a" or "private-1"
+  description?: string;
+  size: number; // Prefix length of every copy
+  zoneCount: number;
+  zonePrefix?: string; // Zone names are the prefix plus a letter or number, e.g. "us-east-1" gives us-east-1a, us-east-1b
+  zoneNaming?: ZoneNaming; // Letters when unset
+  parentId?: string; // Network segment the copies are carved out of; the base network when unset
+}
+
+// A complete plan as exported and imported
+export interface NetworkPlan {
+  baseNetwork: string;
+  secondaryBaseNetworks?: string[]; // Further non-contiguous ranges (e.g., VPC secondary CIDRs), allocated after baseNetwork in this order
+  baseNetworkIpv6?: string; // Optional IPv6 base prefix for dual-stack plans
+  reservedRanges?: ReservedRange[]; // Ranges allocation, validation and layout optimization treat as occupied
+  provider?: string; // Cloud provider profile the plan is validated against
+  dnsDomain?: string; // Forward zone for the DNS exports (e.g., corp.example.com)
+  networkSegments: NetworkSegmentPlan[];
+  networkSegmentGroups?: NetworkSegmentGroup[];
+}
+
 // Convert IP address to number
 export function ipToNumber(ip: string): number {
   return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet), 0) >>> 0;
@@ -47,7 +122,87 @@ export function numberToIp(num: number): string {
   ].join('.');
 }
 
-// Parse CIDR notation
+// Number of address bits for an IP version
+export function addressBits(version: IpVersion): number {
+  return version === 4 ? 32 : 128;
+}
+
+// Detect the IP version of an address or CIDR
+export function getIpVersion(address: string): IpVersion {
+  return address.includes(':') ? 6 : 4;
+}
+
+// Convert IPv6 address to bigint (supports :: compression and embedded IPv4)
+export function ipv6ToBigInt(ip: string): bigint {
+  let address = ip.toLowerCase();
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = ipToNumber(tail);
+    address = `${address.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xFFFF).toString(16)}`;
+  }
+
+  const [head, rest] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest ? rest.split(':') : [];
+  const groups = rest === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - restGroups.length).fill('0'), ...restGroups];
+
+  return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+}
+
+// Convert bigint to IPv6 address in canonical (RFC 5952) form
+export function bigIntToIpv6(value: bigint): string {
+  const groups: number[] = [];
+  for (let i = 7; i >= 0; i--) {
+    groups.push(Number((value >> BigInt(i * 16)) & 0xFFFFn));
+  }
+
+  // Compress the longest run of two or more zero groups with ::
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+// Convert IPv4 or IPv6 address to bigint
+export function ipToBigInt(ip: string): bigint {
+  return getIpVersion(ip) === 6 ? ipv6ToBigInt(ip) : BigInt(ipToNumber(ip));
+}
+
+// Convert bigint to IPv4 or IPv6 address
+export function bigIntToIp(value: bigint, version: IpVersion): string {
+  return version === 6 ? bigIntToIpv6(value) : numberToIp(Number(value));
+}
+
+// Number of addresses in a block of the given prefix length
+export function blockSize(size: number, version: IpVersion): bigint {
+  return 1n << BigInt(addressBits(version) - size);
+}
+
+// Build the network mask for a prefix length
+export function prefixMask(size: number, version: IpVersion): bigint {
+  const allOnes = (1n << BigInt(addressBits(version))) - 1n;
+  return allOnes ^ (blockSize(size, version) - 1n);
+}
+
+// Parse CIDR notation (IPv4 only)
 export function parseCidr(cidr: string): { network: number; mask: number; size: number } {
   const [ip, prefix] = cidr.split('/');
   const network = ipToNumber(ip);
@@ -56,132 +211,583 @@ export function parseCidr(cidr: string): { network: number; mask: number; size:
   return { network: network & mask, mask, size };
 }
 
+// Parse CIDR notation of either IP version into an address range
+export function parseCidrRange(cidr: string): CidrRange {
+  const [ip, prefix] = cidr.split('/');
+  const version = getIpVersion(ip);
+  const size = parseInt(prefix);
+  const start = ipToBigInt(ip) & prefixMask(size, version);
+  return { version, start, end: start + blockSize(size, version) - 1n, size };
+}
+
+// Addresses reserved at the start and end of every subnet (e.g., network and broadcast addresses)
+export interface AddressReservation {
+  start: number;
+  end: number;
+}
+
+// Default reservations: IPv4 reserves the network and broadcast addresses. IPv6 has no
+// broadcast address, so every address is usable and the last address is reported in
+// place of the broadcast address.
+export function defaultAddressReservation(version: IpVersion): AddressReservation {
+  return version === 4 ? { start: 1, end: 1 } : { start: 0, end: 0 };
+}
+
 // Calculate network segment information
-export function calculateNetworkSegment(networkAddress: string, cidr: string): NetworkSegmentInfo {
-  const { network, mask, size } = parseCidr(`${networkAddress}/${cidr}`);
-  const totalHosts = Math.pow(2, 32 - size) - 2;
-  const broadcast = network | (~mask >>> 0);
-  
+export function calculateNetworkSegment(
+  networkAddress: string,
+  cidr: string,
+  reservation?: AddressReservation
+): NetworkSegmentInfo {
+  const { version, start, end, size } = parseCidrRange(`${networkAddress}/${cidr}`);
+  const reserved = reservation ?? defaultAddressReservation(version);
+  const addresses = blockSize(size, version);
+  const reservedCount = BigInt(reserved.start + reserved.end);
+
   return {
-    networkAddress: numberToIp(network),
-    broadcastAddress: numberToIp(broadcast),
-    firstHost: numberToIp(network + 1),
-    lastHost: numberToIp(broadcast - 1),
-    totalHosts,
-    subnetMask: numberToIp(mask),
+    networkAddress: bigIntToIp(start, version),
+    broadcastAddress: bigIntToIp(end, version),
+    firstHost: bigIntToIp(start + BigInt(reserved.start), version),
+    lastHost: bigIntToIp(end - BigInt(reserved.end), version),
+    totalHosts: addresses > reservedCount ? Number(addresses - reservedCount) : 0,
+    subnetMask: bigIntToIp(prefixMask(size, version), version),
     cidr: `${networkAddress}/${cidr}`
   };
 }
 
+// Recalculate usable host ranges of network segments for a set of address reservations.
+// Returns the original array when nothing changes.
+export function applyAddressReservation(
+  segments: NetworkSegmentPlan[],
+  reservationFor: (version: IpVersion) => AddressReservation
+): NetworkSegmentPlan[] {
+  let changed = false;
+  const result = segments.map(segment => {
+    if (!isValidCidr(segment.cidr)) return segment;
+
+    const [networkAddress, prefix] = segment.cidr.split('/');
+    const info = calculateNetworkSegment(networkAddress, prefix, reservationFor(getIpVersion(segment.cidr)));
+    if (info.firstHost === segment.firstHost && info.lastHost === segment.lastHost && info.totalHosts === segment.totalHosts) {
+      return segment;
+    }
+
+    changed = true;
+    return { ...segment, firstHost: info.firstHost, lastHost: info.lastHost, totalHosts: info.totalHosts };
+  });
+
+  return changed ? result : segments;
+}
+
+// Check if two address ranges overlap
+export function cidrRangesOverlap(range1: CidrRange, range2: CidrRange): boolean {
+  if (range1.version !== range2.version) return false;
+  return !(range1.end < range2.start || range2.end < range1.start);
+}
+
+// Check if an address range lies entirely within another
+export function cidrRangeContains(outer: CidrRange, inner: CidrRange): boolean {
+  if (outer.version !== inner.version) return false;
+  return inner.start >= outer.start && inner.end <= outer.end;
+}
+
 // Check if two network segments overlap
 export function networkSegmentsOverlap(segment1: NetworkSegmentPlan, segment2: NetworkSegmentPlan): boolean {
-  const { network: net1 } = parseCidr(segment1.cidr);
-  const { network: net2, mask: mask2 } = parseCidr(segment2.cidr);
-  
-  const segment1Start = net1;
-  const segment1End = net1 | (~parseCidr(segment1.cidr).mask >>> 0);
-  const segment2Start = net2;
-  const segment2End = net2 | (~mask2 >>> 0);
-  
-  return !(segment1End < segment2Start || segment2End < segment1Start);
+  return cidrRangesOverlap(parseCidrRange(segment1.cidr), parseCidrRange(segment2.cidr));
 }
 
-// Check if a network segment fits within a base network
-export function networkSegmentFitsInBase(segment: NetworkSegmentPlan, baseNetwork: string): boolean {
-  const { network: baseNet, mask: baseMask } = parseCidr(baseNetwork);
-  const { network: segmentNet, mask: segmentMask } = parseCidr(segment.cidr);
-  
-  // Check if network segment is within base network range
-  const baseStart = baseNet;
-  const baseEnd = baseNet | (~baseMask >>> 0);
-  const segmentStart = segmentNet;
-  const segmentEnd = segmentNet | (~segmentMask >>> 0);
-  
-  return segmentStart >= baseStart && segmentEnd <= baseEnd;
+// Every range of a plan's base network in allocation preference order, the primary range first
+export function planBaseNetworks(plan: Pick<NetworkPlan, 'baseNetwork' | 'secondaryBaseNetworks'>): string[] {
+  return [plan.baseNetwork, ...(plan.secondaryBaseNetworks ?? [])];
+}
+
+// Accept a single base network or a list of base network ranges
+function toBaseNetworks(baseNetwork: string | string[]): string[] {
+  return Array.isArray(baseNetwork) ? baseNetwork : [baseNetwork];
+}
+
+// The base network range containing a CIDR, if any
+export function baseNetworkContaining(baseNetwork: string | string[], cidr: string): string | undefined {
+  const range = parseCidrRange(cidr);
+  return toBaseNetworks(baseNetwork).find(base => cidrRangeContains(parseCidrRange(base), range));
+}
+
+// Check if a network segment fits within a base network, or within any one of several base network ranges
+export function networkSegmentFitsInBase(segment: NetworkSegmentPlan, baseNetwork: string | string[]): boolean {
+  return baseNetworkContaining(baseNetwork, segment.cidr) !== undefined;
+}
+
+// Check the ranges of a base network: valid CIDRs of one IP version that don't overlap each other
+export function validateBaseNetworks(baseNetworks: string[]): string[] {
+  const errors: string[] = [];
+  const validRanges: string[] = [];
+
+  for (const cidr of baseNetworks) {
+    if (!isValidCidr(cidr)) {
+      errors.push(`Base network range "${cidr}" is not a valid CIDR`);
+    } else if (getIpVersion(cidr) !== getIpVersion(validRanges[0] ?? cidr)) {
+      errors.push(`Base network range ${cidr} is IPv${getIpVersion(cidr)} but ${validRanges[0]} is IPv${getIpVersion(validRanges[0])}`);
+    } else {
+      const overlapping = validRanges.find(other => cidrRangesOverlap(parseCidrRange(other), parseCidrRange(cidr)));
+      if (overlapping) {
+        errors.push(`Base network ranges ${overlapping} and ${cidr} overlap`);
+      } else {
+        validRanges.push(cidr);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Describe a reserved range with its reason, e.g. "172.17.0.0/16 (Docker default bridge)"
+export function describeReservedRange(reservedRange: ReservedRange): string {
+  return reservedRange.reason ? `${reservedRange.cidr} (${reservedRange.reason})` : reservedRange.cidr;
+}
+
+// Address ranges of the reserved ranges, skipping invalid CIDRs (e.g., while being typed)
+function reservedCidrRanges(reservedRanges: ReservedRange[]): CidrRange[] {
+  return reservedRanges.filter(reservedRange => isValidCidr(reservedRange.cidr)).map(reservedRange => parseCidrRange(reservedRange.cidr));
 }
 
-// Find next available network segment within base network
+// Reserved ranges a CIDR overlaps
+export function overlappingReservedRanges(cidr: string, reservedRanges: ReservedRange[]): ReservedRange[] {
+  const range = parseCidrRange(cidr);
+  return reservedRanges.filter(reservedRange => isValidCidr(reservedRange.cidr) && cidrRangesOverlap(parseCidrRange(reservedRange.cidr), range));
+}
+
+// Check the reserved ranges of a plan: valid network addresses of the base network's IP version
+export function validateReservedRanges(baseNetworks: string[], reservedRanges: Pick<ReservedRange, 'cidr'>[]): string[] {
+  const errors: string[] = [];
+  const version = getIpVersion(baseNetworks[0]);
+
+  for (const { cidr } of reservedRanges) {
+    if (!isValidCidr(cidr)) {
+      errors.push(`Reserved range "${cidr}" is not a valid CIDR`);
+    } else if (getIpVersion(cidr) !== version) {
+      errors.push(`Reserved range ${cidr} is IPv${getIpVersion(cidr)} but the base network is IPv${version}`);
+    } else if (!isCidrAligned(cidr)) {
+      const { start, size } = parseCidrRange(cidr);
+      errors.push(`Reserved range ${cidr} is not aligned to a /${size} boundary (did you mean ${bigIntToIp(start, version)}/${size}?)`);
+    }
+  }
+
+  return errors;
+}
+
+// Network segments directly inside a parent, or the top-level segments when parentId is undefined
+export function childNetworkSegments(segments: NetworkSegmentPlan[], parentId: string | undefined): NetworkSegmentPlan[] {
+  return segments.filter(segment => segment.parentId === parentId);
+}
+
+// IDs of every network segment nested (at any depth) inside a network segment
+export function descendantNetworkSegmentIds(segments: NetworkSegmentPlan[], id: string): Set<string> {
+  const descendants = new Set<string>();
+  const visit = (parentId: string) => {
+    for (const segment of segments) {
+      if (segment.parentId === parentId && !descendants.has(segment.id)) {
+        descendants.add(segment.id);
+        visit(segment.id);
+      }
+    }
+  };
+  visit(id);
+  return descendants;
+}
+
+// Network segments without children, i.e., the subnets that are actually deployed
+export function leafNetworkSegments(segments: NetworkSegmentPlan[]): NetworkSegmentPlan[] {
+  const parentIds = new Set(segments.map(segment => segment.parentId));
+  return segments.filter(segment => !parentIds.has(segment.id));
+}
+
+// Order network segments depth first, parents before their children, with each one's nesting depth.
+// Segments whose parent is missing are listed at the top level so they stay visible.
+export function networkSegmentTree(segments: NetworkSegmentPlan[]): { segment: NetworkSegmentPlan; depth: number }[] {
+  const ids = new Set(segments.map(segment => segment.id));
+  const tree: { segment: NetworkSegmentPlan; depth: number }[] = [];
+  const visited = new Set<string>();
+  const visit = (segment: NetworkSegmentPlan, depth: number) => {
+    if (visited.has(segment.id)) return;
+    visited.add(segment.id);
+    tree.push({ segment, depth });
+    for (const child of childNetworkSegments(segments, segment.id)) visit(child, depth + 1);
+  };
+
+  for (const segment of segments) {
+    if (!segment.parentId || !ids.has(segment.parentId)) visit(segment, 0);
+  }
+  // Segments caught in a parent cycle
+  for (const segment of segments) visit(segment, 0);
+  return tree;
+}
+
+// Check every network segment against its parent (or the base network ranges) and its siblings, and
+// every leaf network segment against the reserved ranges. Parents may span a reserved range as long
+// as none of their children use it.
+export function validateNetworkSegmentHierarchy(
+  baseNetwork: string | string[],
+  segments: NetworkSegmentPlan[],
+  reservedRanges: ReservedRange[] = []
+): string[] {
+  const errors: string[] = [];
+  const byId = new Map(segments.map(segment => [segment.id, segment]));
+
+  for (const segment of segments) {
+    if (segment.parentId === undefined) {
+      if (!networkSegmentFitsInBase(segment, baseNetwork)) {
+        errors.push(`Network segment "${segment.name}" does not fit within ${Array.isArray(baseNetwork) && baseNetwork.length > 1 ? 'any base network range' : 'the base network'}`);
+      }
+      continue;
+    }
+
+    const parent = byId.get(segment.parentId);
+    if (!parent) {
+      errors.push(`Network segment "${segment.name}" belongs to a parent network segment that no longer exists`);
+    } else if (descendantNetworkSegmentIds(segments, segment.id).has(segment.id)) {
+      errors.push(`Network segment "${segment.name}" is nested inside itself`);
+    } else if (!networkSegmentFitsInBase(segment, parent.cidr)) {
+      errors.push(`Network segment "${segment.name}" does not fit within its parent "${parent.name}" (${parent.cidr})`);
+    }
+  }
+
+  // Only network segments at the same level compete for space
+  segments.forEach((segment, i) => {
+    for (const other of segments.slice(i + 1)) {
+      if (segment.parentId === other.parentId && networkSegmentsOverlap(segment, other)) {
+        errors.push(`Network segments "${segment.name}" and "${other.name}" overlap`);
+      }
+    }
+  });
+
+  for (const segment of leafNetworkSegments(segments)) {
+    for (const reservedRange of overlappingReservedRanges(segment.cidr, reservedRanges)) {
+      errors.push(`Network segment "${segment.name}" (${segment.cidr}) overlaps reserved range ${describeReservedRange(reservedRange)}`);
+    }
+  }
+
+  return errors;
+}
+
+// Smallest CIDR block that contains every given CIDR of the same IP version
+export function coveringCidr(cidrs: string[]): string {
+  const ranges = cidrs.map(parseCidrRange);
+  const { version } = ranges[0];
+  const start = ranges.reduce((min, range) => range.start < min ? range.start : min, ranges[0].start);
+  const end = ranges.reduce((max, range) => range.end > max ? range.end : max, ranges[0].end);
+
+  let size = Math.min(...ranges.map(range => range.size));
+  while (size > 0 && (start & prefixMask(size, version)) + blockSize(size, version) - 1n < end) {
+    size--;
+  }
+  return `${bigIntToIp(start & prefixMask(size, version), version)}/${size}`;
+}
+
+// Round an address up to the next block boundary
+function alignUp(address: bigint, size: bigint): bigint {
+  const remainder = address % size;
+  return remainder === 0n ? address : address + size - remainder;
+}
+
+// Find the first aligned free block of the requested size within a base range
+function findFreeBlock(base: CidrRange, occupied: CidrRange[], requestedSize: number): bigint | null {
+  if (requestedSize < base.size || requestedSize > addressBits(base.version)) return null;
+
+  const requestedBlockSize = blockSize(requestedSize, base.version);
+
+  // Sort occupied ranges inside the base range by network address; ranges past its end
+  // (e.g., in another base network range) would otherwise leave room beyond it
+  const occupiedRanges = occupied
+    .filter(range => cidrRangesOverlap(range, base))
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  let currentAddress = base.start;
+
+  for (const range of occupiedRanges) {
+    // Check if there's enough space before this range
+    const candidate = alignUp(currentAddress, requestedBlockSize);
+    if (candidate + requestedBlockSize - 1n < range.start) {
+      return candidate;
+    }
+
+    if (range.end + 1n > currentAddress) {
+      currentAddress = range.end + 1n;
+    }
+  }
+
+  // Check if there's space at the end
+  const candidate = alignUp(currentAddress, requestedBlockSize);
+  return candidate + requestedBlockSize - 1n <= base.end ? candidate : null;
+}
+
+// Find next available network segment within base network, skipping reserved ranges. Given several
+// base network ranges, the first range (in preference order) with a free block of the requested size is used.
 export function findNextAvailableNetworkSegment(
-  baseNetwork: string,
+  baseNetwork: string | string[],
   existingSegments: NetworkSegmentPlan[],
-  requestedSize: number
+  requestedSize: number,
+  reservedRanges: ReservedRange[] = []
 ): NetworkSegmentPlan | null {
-  const { network: baseNet, mask: baseMask } = parseCidr(baseNetwork);
-  const baseStart = baseNet;
-  const baseEnd = baseNet | (~baseMask >>> 0);
-  
-  // Sort existing network segments by network address
-  const sortedSegments = [...existingSegments].sort((a, b) => {
-    const { network: netA } = parseCidr(a.cidr);
-    const { network: netB } = parseCidr(b.cidr);
-    return netA - netB;
+  const occupied = [...existingSegments.map(segment => parseCidrRange(segment.cidr)), ...reservedCidrRanges(reservedRanges)];
+  for (const cidr of toBaseNetworks(baseNetwork)) {
+    const base = parseCidrRange(cidr);
+    const start = findFreeBlock(base, occupied, requestedSize);
+    if (start !== null) {
+      return createNetworkSegmentPlan(start, requestedSize, base.version, existingSegments.length + 1);
+    }
+  }
+  return null;
+}
+
+// Prefix length of the IPv6 block paired with each dual-stack network segment
+export const DUAL_STACK_IPV6_SEGMENT_SIZE = 64;
+
+// Find next available IPv6 block for a dual-stack network segment
+export function findNextAvailableIpv6Block(
+  ipv6BaseNetwork: string,
+  existingSegments: NetworkSegmentPlan[],
+  requestedSize: number = DUAL_STACK_IPV6_SEGMENT_SIZE
+): string | null {
+  const base = parseCidrRange(ipv6BaseNetwork);
+  const occupied = existingSegments
+    .filter(segment => segment.ipv6Cidr)
+    .map(segment => parseCidrRange(segment.ipv6Cidr!));
+  const start = findFreeBlock(base, occupied, requestedSize);
+  if (start === null) return null;
+
+  return `${bigIntToIpv6(start)}/${requestedSize}`;
+}
+
+// Pair every leaf network segment with an IPv6 block from the IPv6 base network.
+// Segments keep a block that still fits and doesn't collide; the others get the
+// next free block. Parent segments and an empty base have no IPv6 blocks, and segments
+// imported from a cloud subnet (cloudResourceId) only keep the block the cloud gave them,
+// so the plan never claims a block the subnet doesn't have. Returns the original array
+// when nothing changes.
+export function assignIpv6Blocks(ipv6BaseNetwork: string, segments: NetworkSegmentPlan[]): NetworkSegmentPlan[] {
+  if (!ipv6BaseNetwork) {
+    if (!segments.some(segment => segment.ipv6Cidr)) return segments;
+    return segments.map(segment => ({ ...segment, ipv6Cidr: undefined }));
+  }
+
+  const base = parseCidrRange(ipv6BaseNetwork);
+  const parentIds = new Set(segments.map(segment => segment.parentId));
+  const placed: NetworkSegmentPlan[] = [];
+  const keepsBlock = new Set<number>();
+
+  segments.forEach((segment, index) => {
+    if (!segment.ipv6Cidr || !isValidCidr(segment.ipv6Cidr) || parentIds.has(segment.id)) return;
+    const range = parseCidrRange(segment.ipv6Cidr);
+    const collides = placed.some(other => cidrRangesOverlap(range, parseCidrRange(other.ipv6Cidr!)));
+    if (cidrRangeContains(base, range) && !collides) {
+      placed.push(segment);
+      keepsBlock.add(index);
+    }
   });
-  
-  let currentAddress = baseStart;
-  
-  for (const segment of sortedSegments) {
-    const { network: segmentNet, mask: segmentMask } = parseCidr(segment.cidr);
-    const segmentEnd = segmentNet | (~segmentMask >>> 0);
-    
-    // Align currentAddress to the requested network segment size boundary
-    const segmentMaskForRequestedSize = (0xFFFFFFFF << (32 - requestedSize)) >>> 0;
-    const alignedAddress = currentAddress & segmentMaskForRequestedSize;
-    if (alignedAddress < currentAddress) {
-      currentAddress = alignedAddress + Math.pow(2, 32 - requestedSize);
-    } else {
-      currentAddress = alignedAddress;
-    }
-    
-    // Check if there's enough space before this network segment
-    const requestedSegmentSize = Math.pow(2, 32 - requestedSize);
-    const requestedSegmentEnd = currentAddress + requestedSegmentSize - 1;
-    
-    if (requestedSegmentEnd <= segmentNet) {
-      return {
-        id: `network-segment-${Date.now()}`,
-        name: `Network Segment ${existingSegments.length + 1}`,
-        cidr: `${numberToIp(currentAddress)}/${requestedSize}`,
-        networkAddress: numberToIp(currentAddress),
-        broadcastAddress: numberToIp(requestedSegmentEnd),
-        firstHost: numberToIp(currentAddress + 1),
-        lastHost: numberToIp(requestedSegmentEnd - 1),
-        totalHosts: requestedSegmentSize - 2,
-        subnetMask: numberToIp((0xFFFFFFFF << (32 - requestedSize)) >>> 0),
-        size: requestedSize
-      };
-    }
-    
-    currentAddress = segmentEnd + 1;
+
+  let changed = false;
+  const result = segments.map((segment, index) => {
+    if (keepsBlock.has(index)) return segment;
+
+    const ipv6Cidr = parentIds.has(segment.id) || segment.cloudResourceId
+      ? undefined
+      : findNextAvailableIpv6Block(ipv6BaseNetwork, placed) ?? undefined;
+    if (ipv6Cidr === segment.ipv6Cidr) return segment;
+
+    changed = true;
+    const updated = { ...segment, ipv6Cidr };
+    if (ipv6Cidr) placed.push(updated);
+    return updated;
+  });
+
+  return changed ? result : segments;
+}
+
+// Create a network segment plan at an explicit CIDR
+export function createNetworkSegmentFromCidr(cidr: string, index: number): NetworkSegmentPlan {
+  const { version, start, size } = parseCidrRange(cidr);
+  return createNetworkSegmentPlan(start, size, version, index);
+}
+
+// Check that a CIDR's address is the network address of its block (e.g., 10.0.128.0/20, not 10.0.129.0/20)
+export function isCidrAligned(cidr: string): boolean {
+  const [ip] = cidr.split('/');
+  return ipToBigInt(ip) === parseCidrRange(cidr).start;
+}
+
+// Validate placing a network segment at an explicit CIDR, naming any segment or reserved range it
+// conflicts with. Child segments are placed within their parent and checked against their siblings only.
+export function validateNetworkSegmentPlacement(
+  cidr: string,
+  baseNetwork: string | string[],
+  existingSegments: NetworkSegmentPlan[],
+  parent?: NetworkSegmentPlan,
+  reservedRanges: ReservedRange[] = []
+): string[] {
+  if (!isValidCidr(cidr)) {
+    return [`"${cidr}" is not a valid CIDR`];
   }
-  
-  // Check if there's space at the end
-  // Align currentAddress to the requested network segment size boundary
-  const segmentMaskForRequestedSize = (0xFFFFFFFF << (32 - requestedSize)) >>> 0;
-  const alignedAddress = currentAddress & segmentMaskForRequestedSize;
-  if (alignedAddress < currentAddress) {
-    currentAddress = alignedAddress + Math.pow(2, 32 - requestedSize);
-  } else {
-    currentAddress = alignedAddress;
+
+  const baseNetworks = toBaseNetworks(baseNetwork);
+  const { version, start, size } = parseCidrRange(cidr);
+  if (version !== getIpVersion(baseNetworks[0])) {
+    return [`${cidr} is an IPv${version} CIDR but the base network ${baseNetworks[0]} is IPv${getIpVersion(baseNetworks[0])}`];
   }
-  
-  const requestedSegmentSize = Math.pow(2, 32 - requestedSize);
-  const requestedSegmentEnd = currentAddress + requestedSegmentSize - 1;
-  
-  if (requestedSegmentEnd <= baseEnd) {
-    return {
-      id: `network-segment-${Date.now()}`,
-      name: `Network Segment ${existingSegments.length + 1}`,
-      cidr: `${numberToIp(currentAddress)}/${requestedSize}`,
-      networkAddress: numberToIp(currentAddress),
-      broadcastAddress: numberToIp(requestedSegmentEnd),
-      firstHost: numberToIp(currentAddress + 1),
-      lastHost: numberToIp(requestedSegmentEnd - 1),
-      totalHosts: requestedSegmentSize - 2,
-      subnetMask: numberToIp((0xFFFFFFFF << (32 - requestedSize)) >>> 0),
-      size: requestedSize
-    };
+
+  const errors: string[] = [];
+  if (!isCidrAligned(cidr)) {
+    errors.push(`${cidr} is not aligned to a /${size} boundary (did you mean ${bigIntToIp(start, version)}/${size}?)`);
   }
-  
+
+  const candidate = createNetworkSegmentFromCidr(cidr, existingSegments.length + 1);
+  if (parent && !networkSegmentFitsInBase(candidate, parent.cidr)) {
+    errors.push(`${candidate.cidr} does not fit within network segment "${parent.name}" (${parent.cidr})`);
+  } else if (!parent && !networkSegmentFitsInBase(candidate, baseNetworks)) {
+    errors.push(baseNetworks.length > 1
+      ? `${candidate.cidr} does not fit within any base network range (${baseNetworks.join(', ')})`
+      : `${candidate.cidr} does not fit within the base network ${baseNetworks[0]}`);
+  }
+
+  for (const segment of existingSegments) {
+    if (networkSegmentsOverlap(candidate, segment)) {
+      errors.push(`${candidate.cidr} overlaps with network segment "${segment.name}" (${segment.cidr})`);
+    }
+  }
+  for (const reservedRange of overlappingReservedRanges(candidate.cidr, reservedRanges)) {
+    errors.push(`${candidate.cidr} overlaps reserved range ${describeReservedRange(reservedRange)}`);
+  }
+
+  return errors;
+}
+
+// Shift an address by an offset, leaving it as it is when it does not parse
+const shiftAddress = (address: string, offset: bigint): string => {
+  const ip = address.trim();
+  return isValidIpAddress(ip) || isValidIpv6Address(ip) ? bigIntToIp(ipToBigInt(ip) + offset, getIpVersion(ip)) : address;
+};
+
+// Shift the addresses of a host reservation by an offset
+const shiftHostReservation = (reservation: HostReservation, offset: bigint): HostReservation => {
+  return { ...reservation, address: reservation.address.split('-').map(part => shiftAddress(part, offset)).join('-') };
+};
+
+// Shift the DHCP pool and gateway by an offset; DNS servers usually live elsewhere, so they stay
+const shiftDhcpSettings = (dhcp: DhcpSettings, offset: bigint): DhcpSettings => ({
+  ...dhcp,
+  poolStart: dhcp.poolStart && shiftAddress(dhcp.poolStart, offset),
+  poolEnd: dhcp.poolEnd && shiftAddress(dhcp.poolEnd, offset),
+  gateway: dhcp.gateway && shiftAddress(dhcp.gateway, offset)
+});
+
+// Move a network segment to a new block, keeping its identity and metadata. Host reservations and
+// the DHCP pool and gateway keep their offset from the start of the block.
+export function moveNetworkSegment(segment: NetworkSegmentPlan, placement: NetworkSegmentPlan): NetworkSegmentPlan {
+  const offset = parseCidrRange(placement.cidr).start - parseCidrRange(segment.cidr).start;
+  return {
+    ...segment,
+    ...(segment.hostReservations && offset !== 0n
+      ? { hostReservations: segment.hostReservations.map(reservation => shiftHostReservation(reservation, offset)) }
+      : {}),
+    ...(segment.dhcp && offset !== 0n ? { dhcp: shiftDhcpSettings(segment.dhcp, offset) } : {}),
+    cidr: placement.cidr,
+    networkAddress: placement.networkAddress,
+    broadcastAddress: placement.broadcastAddress,
+    firstHost: placement.firstHost,
+    lastHost: placement.lastHost,
+    totalHosts: placement.totalHosts,
+    subnetMask: placement.subnetMask,
+    size: placement.size
+  };
+}
+
+// Move a network segment to a new block, shifting its descendants by the same offset so they keep
+// their position inside it. Returns null when a child would no longer fit (e.g., after shrinking).
+export function relocateNetworkSegment(
+  segments: NetworkSegmentPlan[],
+  id: string,
+  placement: NetworkSegmentPlan
+): NetworkSegmentPlan[] | null {
+  const segment = segments.find(candidate => candidate.id === id);
+  if (!segment) return null;
+
+  const { version, start: oldStart } = parseCidrRange(segment.cidr);
+  const offset = parseCidrRange(placement.cidr).start - oldStart;
+  const descendants = descendantNetworkSegmentIds(segments, id);
+  const addressSpaceEnd = blockSize(0, version) - 1n;
+  let fits = true;
+  const moved = segments.map(candidate => {
+    if (candidate.id === id) return moveNetworkSegment(candidate, placement);
+    if (!descendants.has(candidate.id) || offset === 0n) return candidate;
+
+    const range = parseCidrRange(candidate.cidr);
+    const shifted = range.start + offset;
+    if (shifted < 0n || range.end + offset > addressSpaceEnd) {
+      fits = false;
+      return candidate;
+    }
+    return moveNetworkSegment(candidate, createNetworkSegmentFromCidr(`${bigIntToIp(shifted, version)}/${range.size}`, 0));
+  });
+
+  fits &&= moved
+    .filter(candidate => candidate.parentId === id)
+    .every(child => networkSegmentFitsInBase(child, placement.cidr));
+  return fits ? moved : null;
+}
+
+let networkSegmentIdCounter = 0;
+
+// Generate a unique network segment ID (segments created in the same millisecond get distinct IDs)
+export function createNetworkSegmentId(): string {
+  networkSegmentIdCounter += 1;
+  return `network-segment-${Date.now()}-${networkSegmentIdCounter}`;
+}
+
+// Generate a unique reserved range ID
+export function createReservedRangeId(): string {
+  networkSegmentIdCounter += 1;
+  return `reserved-range-${Date.now()}-${networkSegmentIdCounter}`;
+}
+
+// Generate a unique zone group ID
+export function createNetworkSegmentGroupId(): string {
+  networkSegmentIdCounter += 1;
+  return `network-segment-group-${Date.now()}-${networkSegmentIdCounter}`;
+}
+
+// Generate a unique host reservation ID
+export function createHostReservationId(): string {
+  networkSegmentIdCounter += 1;
+  return `host-reservation-${Date.now()}-${networkSegmentIdCounter}`;
+}
+
+// Build a network segment plan for an aligned block
+function createNetworkSegmentPlan(start: bigint, size: number, version: IpVersion, index: number): NetworkSegmentPlan {
+  const networkAddress = bigIntToIp(start, version);
+  return {
+    id: createNetworkSegmentId(),
+    name: `Network Segment ${index}`,
+    ...calculateNetworkSegment(networkAddress, size.toString()),
+    size
+  };
+}
+
+// Host count including growth headroom (e.g., 300 hosts + 30% = 390)
+export function hostsWithGrowth(hosts: number, growthPercent: number): number {
+  return Math.ceil((hosts * (100 + growthPercent)) / 100);
+}
+
+// Find the smallest prefix length that fits the requested hosts plus growth headroom
+export function sizeForHostCount(
+  hosts: number,
+  growthPercent: number,
+  version: IpVersion,
+  reservedAddresses: number = version === 4 ? 2 : 0
+): number | null {
+  const requiredAddresses = BigInt(hostsWithGrowth(hosts, growthPercent) + reservedAddresses);
+
+  for (let size = addressBits(version); size >= 0; size--) {
+    if (blockSize(size, version) >= requiredAddresses) return size;
+  }
+
   return null;
 }
 
@@ -196,14 +802,43 @@ export function isValidIpAddress(ip: string): boolean {
   });
 }
 
+// Validate IPv6 address format
+export function isValidIpv6Address(ip: string): boolean {
+  if (!/^[0-9a-fA-F:.]+$/.test(ip) || !ip.includes(':')) return false;
+
+  const compressions = ip.split('::').length - 1;
+  if (compressions > 1) return false;
+
+  // An embedded IPv4 tail takes the place of the last two groups
+  let address = ip;
+  let extraGroups = 0;
+  const lastColon = ip.lastIndexOf(':');
+  const tail = ip.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    if (!isValidIpAddress(tail)) return false;
+    address = `${ip.slice(0, lastColon + 1)}0`;
+    extraGroups = 1;
+  }
+
+  const [head, rest] = address.split('::');
+  const groups = [...(head ? head.split(':') : []), ...(rest ? rest.split(':') : [])];
+  if (!groups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+
+  const groupCount = groups.length + extraGroups;
+  return compressions === 1 ? groupCount < 8 : groupCount === 8;
+}
+
 // Validate CIDR notation
 export function isValidCidr(cidr: string): boolean {
   const parts = cidr.split('/');
-  if (parts.length !== 2) return false;
+  if (parts.length !== 2 || !/^\d+$/.test(parts[1])) return false;
   
   const ip = parts[0];
   const prefix = parseInt(parts[1]);
   
+  if (getIpVersion(ip) === 6) {
+    return isValidIpv6Address(ip) && prefix >= 0 && prefix <= 128;
+  }
   return isValidIpAddress(ip) && prefix >= 0 && prefix <= 32;
 }
 
@@ -224,4 +859,28 @@ export const COMMON_NETWORK_SEGMENT_SIZES = [
   { size: 28, name: '/28 (16 hosts)', hosts: 14 },
   { size: 29, name: '/29 (8 hosts)', hosts: 6 },
   { size: 30, name: '/30 (4 hosts)', hosts: 2 },
-]; 
\ No newline at end of file
+];
+
+// Get common IPv6 network segment sizes for quick selection
+export const COMMON_IPV6_NETWORK_SEGMENT_SIZES = [
+  { size: 48, name: '/48 (65,536 /64 subnets)', hosts: 2 ** 80 },
+  { size: 52, name: '/52 (4,096 /64 subnets)', hosts: 2 ** 76 },
+  { size: 56, name: '/56 (256 /64 subnets)', hosts: 2 ** 72 },
+  { size: 60, name: '/60 (16 /64 subnets)', hosts: 2 ** 68 },
+  { size: 62, name: '/62 (4 /64 subnets)', hosts: 2 ** 66 },
+  { size: 63, name: '/63 (2 /64 subnets)', hosts: 2 ** 65 },
+  { size: 64, name: '/64 (2^64 addresses)', hosts: 2 ** 64 },
+  { size: 112, name: '/112 (65,536 addresses)', hosts: 65536 },
+  { size: 120, name: '/120 (256 addresses)', hosts: 256 },
+  { size: 124, name: '/124 (16 addresses)', hosts: 16 },
+];
+
+// Get the quick selection sizes for an IP version
+export function getNetworkSegmentSizes(version: IpVersion) {
+  return version === 6 ? COMMON_IPV6_NETWORK_SEGMENT_SIZES : COMMON_NETWORK_SEGMENT_SIZES;
+}
+
+// Get the default network segment size for an IP version
+export function getDefaultNetworkSegmentSize(version: IpVersion): number {
+  return version === 6 ? 64 : 24;
+}
@@ -0,0 +1,310 @@
+import {
+  addressBits,
+  bigIntToIp,
+  createNetworkSegmentGroupId,
+  findNextAvailableNetworkSegment,
+  getIpVersion,
+  isCidrAligned,
+  isValidCidr,
+  parseCidrRange
+} from './subnet-utils';
+import type { NetworkPlan, NetworkSegmentGroup, NetworkSegmentPlan } from './subnet-utils';
+import { MAX_GROUP_ZONES, setNetworkSegmentGroupZoneCount } from './segment-groups';
+import { providerSizeForHostCount } from './providers';
+import type { CloudProviderProfile } from './providers';
+import type { PresetTemplate, TemplateNetworkSegment, TemplateParameters } from './presets';
+
+// Version of the template file format written by export
+export const TEMPLATE_FILE_VERSION = 1;
+
+type JsonObject = Record<string, unknown>;
+
+const TEMPLATE_FIELDS = ['templateVersion', 'name', 'description', 'parameters', 'networkSegments'];
+const PARAMETER_FIELDS = ['baseNetwork', 'zoneCount', 'environments', 'growthPercent'];
+const TEMPLATE_SEGMENT_FIELDS = ['name', 'description', 'size', 'hosts', 'zonal', 'perEnvironment'];
+
+// Parameters a template uses, so the picker only asks for those
+export function templateInputs(template: PresetTemplate): { zones: boolean; environments: boolean; growth: boolean } {
+  return {
+    zones: template.networkSegments.some(segment => segment.zonal),
+    environments: template.networkSegments.some(segment => segment.perEnvironment),
+    growth: template.networkSegments.some(segment => segment.size === undefined)
+  };
+}
+
+// Check template parameters before a plan is built from them
+export function validateTemplateParameters(parameters: TemplateParameters): string[] {
+  const errors: string[] = [];
+
+  if (!isValidCidr(parameters.baseNetwork)) {
+    errors.push('Base network must be a valid CIDR (e.g., 10.0.0.0/16)');
+  } else if (!isCidrAligned(parameters.baseNetwork)) {
+    const { version, start, size } = parseCidrRange(parameters.baseNetwork);
+    errors.push(`Base network "${parameters.baseNetwork}" is not a network address; did you mean ${bigIntToIp(start, version)}/${size}?`);
+  }
+  if (!Number.isInteger(parameters.zoneCount) || parameters.zoneCount < 1 || parameters.zoneCount > MAX_GROUP_ZONES) {
+    errors.push(`Availability zones must be a whole number from 1 to ${MAX_GROUP_ZONES}`);
+  }
+  if (!Number.isFinite(parameters.growthPercent) || parameters.growthPercent < 0) {
+    errors.push('Growth must be a percentage of 0 or more');
+  }
+
+  const seen = new Set<string>();
+  for (const environment of parameters.environments) {
+    if (!environment.trim()) {
+      errors.push('Environment names cannot be empty');
+    } else if (seen.has(environment.toLowerCase())) {
+      errors.push(`Environment "${environment}" is listed twice`);
+    }
+    seen.add(environment.toLowerCase());
+  }
+
+  return errors;
+}
+
+// Build a plan from a template. Shared tiers come first, then the per-environment tiers of each
+// environment in turn; zonal tiers become zone groups with one copy per availability zone.
+export function instantiateTemplate(
+  template: PresetTemplate,
+  parameters: TemplateParameters,
+  provider: CloudProviderProfile
+): { plan: NetworkPlan } | { errors: string[] } {
+  const parameterErrors = validateTemplateParameters(parameters);
+  if (parameterErrors.length > 0) return { errors: parameterErrors };
+
+  const { baseNetwork, zoneCount, environments, growthPercent } = parameters;
+  const version = getIpVersion(baseNetwork);
+  const perEnvironment = template.networkSegments.filter(segment => segment.perEnvironment);
+  const tiers: TemplateNetworkSegment[] = environments.length === 0
+    ? template.networkSegments
+    : [
+      ...template.networkSegments.filter(segment => !segment.perEnvironment),
+      ...environments.flatMap(environment => perEnvironment.map(segment => ({ ...segment, name: `${environment.trim()} ${segment.name}` })))
+    ];
+
+  const errors: string[] = [];
+  let networkSegments: NetworkSegmentPlan[] = [];
+  const networkSegmentGroups: NetworkSegmentGroup[] = [];
+
+  for (const tier of tiers) {
+    const size = tier.size ?? providerSizeForHostCount(provider, tier.hosts ?? 0, growthPercent, version);
+    if (size === null) {
+      errors.push(`"${tier.name}" needs more than ${tier.hosts} hosts, more than the largest ${provider.name} subnet holds`);
+      continue;
+    }
+    if (size > addressBits(version)) {
+      errors.push(`"${tier.name}" is a /${size}, which is not a valid IPv${version} network segment size`);
+      continue;
+    }
+
+    if (tier.zonal) {
+      const group: NetworkSegmentGroup = {
+        id: createNetworkSegmentGroupId(),
+        name: tier.name,
+        description: tier.description,
+        size,
+        zoneCount: 0,
+        zonePrefix: provider.zonePrefix,
+        zoneNaming: provider.zoneNaming
+      };
+      const result = setNetworkSegmentGroupZoneCount(baseNetwork, networkSegments, group, zoneCount);
+      if ('error' in result) {
+        errors.push(result.error);
+        continue;
+      }
+      networkSegments = result.networkSegments;
+      networkSegmentGroups.push(result.group);
+      continue;
+    }
+
+    const placement = findNextAvailableNetworkSegment(baseNetwork, networkSegments, size);
+    if (!placement) {
+      errors.push(`No room for "${tier.name}" (/${size}) in ${baseNetwork}`);
+      continue;
+    }
+    networkSegments.push({
+      ...placement,
+      name: tier.name,
+      description: tier.description,
+      requestedHosts: tier.size === undefined ? tier.hosts : undefined,
+      growthPercent: tier.size === undefined ? growthPercent : undefined
+    });
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    plan: {
+      baseNetwork,
+      provider: provider.id,
+      networkSegments,
+      networkSegmentGroups: networkSegmentGroups.length > 0 ? networkSegmentGroups : undefined
+    }
+  };
+}
+
+// Turn a plan into a template. Top-level network segments become tiers, each zone group becomes one
+// zonal tier, and host-sized segments keep their host counts; child segments are not carried over.
+export function templateFromPlan(name: string, description: string, plan: NetworkPlan): PresetTemplate {
+  const groups = (plan.networkSegmentGroups ?? []).filter(group => !group.parentId);
+  const seenGroups = new Set<string>();
+  const networkSegments: TemplateNetworkSegment[] = [];
+
+  for (const segment of plan.networkSegments.filter(candidate => !candidate.parentId)) {
+    const group = groups.find(candidate => candidate.id === segment.groupId);
+    if (group) {
+      if (seenGroups.has(group.id)) continue;
+      seenGroups.add(group.id);
+      networkSegments.push({ name: group.name, description: group.description ?? '', size: group.size, zonal: true });
+    } else if (segment.requestedHosts !== undefined) {
+      networkSegments.push({ name: segment.name, description: segment.description ?? '', hosts: segment.requestedHosts });
+    } else {
+      networkSegments.push({ name: segment.name, description: segment.description ?? '', size: segment.size });
+    }
+  }
+
+  const growthPercents = plan.networkSegments
+    .filter(segment => !segment.parentId && segment.requestedHosts !== undefined)
+    .map(segment => segment.growthPercent ?? 0);
+  return {
+    name,
+    description,
+    parameters: {
+      baseNetwork: plan.baseNetwork,
+      zoneCount: Math.max(1, ...groups.map(group => group.zoneCount)),
+      environments: [],
+      growthPercent: Math.max(0, ...growthPercents)
+    },
+    networkSegments
+  };
+}
+
+// Serialize a template as a template file
+export function serializeTemplate(template: PresetTemplate): string {
+  const { name, description, parameters, networkSegments } = template;
+  return JSON.stringify({ templateVersion: TEMPLATE_FILE_VERSION, name, description, parameters, networkSegments }, null, 2);
+}
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Report fields a schema doesn't define
+const unknownFields = (value: JsonObject, fields: string[]): string[] => {
+  return Object.keys(value).filter(key => !fields.includes(key));
+};
+
+// Validate one template tier, returning the rebuilt tier or its errors
+const parseTemplateSegment = (value: unknown, index: number): { segment: TemplateNetworkSegment } | { errors: string[] } => {
+  const label = `networkSegments[${index}]`;
+  if (!isObject(value)) return { errors: [`${label} must be an object`] };
+
+  const errors: string[] = [];
+  const unknown = unknownFields(value, TEMPLATE_SEGMENT_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`${label} has unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${label}.name must be a non-empty string`);
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push(`${label}.description must be a string`);
+  }
+  if (value.size === undefined && value.hosts === undefined) {
+    errors.push(`${label} needs a size or a host count`);
+  }
+  if (value.size !== undefined && (!Number.isInteger(value.size) || (value.size as number) < 0 || (value.size as number) > 128)) {
+    errors.push(`${label}.size must be a prefix length from 0 to 128`);
+  }
+  if (value.hosts !== undefined && (!Number.isInteger(value.hosts) || (value.hosts as number) < 1)) {
+    errors.push(`${label}.hosts must be a whole number of 1 or more`);
+  }
+  for (const field of ['zonal', 'perEnvironment']) {
+    if (value[field] !== undefined && typeof value[field] !== 'boolean') {
+      errors.push(`${label}.${field} must be true or false`);
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  return {
+    segment: {
+      name: (value.name as string).trim(),
+      description: (value.description as string | undefined) ?? '',
+      size: value.size as number | undefined,
+      hosts: value.size === undefined ? value.hosts as number : undefined,
+      zonal: value.zonal ? true : undefined,
+      perEnvironment: value.perEnvironment ? true : undefined
+    }
+  };
+};
+
+// Parse and validate a template file, returning every problem found
+export function parseTemplateFile(content: string): { template: PresetTemplate } | { errors: string[] } {
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    return { errors: [`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  if (!isObject(config)) {
+    return { errors: ['The file must contain a JSON object'] };
+  }
+  if (config.templateVersion !== TEMPLATE_FILE_VERSION) {
+    return { errors: [`templateVersion ${JSON.stringify(config.templateVersion)} is not a template file version this version of IP Network Planner reads`] };
+  }
+
+  const errors: string[] = [];
+  const unknown = unknownFields(config, TEMPLATE_FIELDS);
+  if (unknown.length > 0) {
+    errors.push(`Unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(field => `"${field}"`).join(', ')}`);
+  }
+  if (typeof config.name !== 'string' || !config.name.trim()) {
+    errors.push('name must be a non-empty string');
+  }
+  if (config.description !== undefined && typeof config.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  const { parameters } = config;
+  if (!isObject(parameters)) {
+    errors.push('parameters must be an object');
+  } else {
+    const unknownParameters = unknownFields(parameters, PARAMETER_FIELDS);
+    if (unknownParameters.length > 0) {
+      errors.push(`parameters has unknown field${unknownParameters.length > 1 ? 's' : ''} ${unknownParameters.map(field => `"${field}"`).join(', ')}`);
+    }
+    if (typeof parameters.baseNetwork !== 'string' || typeof parameters.zoneCount !== 'number' || typeof parameters.growthPercent !== 'number'
+      || !Array.isArray(parameters.environments) || !parameters.environments.every(environment => typeof environment === 'string')) {
+      errors.push('parameters needs a baseNetwork string, zoneCount and growthPercent numbers and an environments list of strings');
+    } else {
+      errors.push(...validateTemplateParameters(parameters as unknown as TemplateParameters).map(error => `parameters: ${error}`));
+    }
+  }
+
+  const networkSegments: TemplateNetworkSegment[] = [];
+  if (!Array.isArray(config.networkSegments) || config.networkSegments.length === 0) {
+    errors.push('networkSegments must be a non-empty array');
+  } else {
+    config.networkSegments.forEach((value, index) => {
+      const result = parseTemplateSegment(value, index);
+      if ('errors' in result) {
+        errors.push(...result.errors);
+      } else {
+        networkSegments.push(result.segment);
+      }
+    });
+  }
+
+  if (errors.length > 0) return { errors };
+  const validParameters = parameters as unknown as TemplateParameters;
+  return {
+    template: {
+      name: (config.name as string).trim(),
+      description: (config.description as string | undefined) ?? '',
+      parameters: {
+        baseNetwork: validParameters.baseNetwork,
+        zoneCount: validParameters.zoneCount,
+        environments: validParameters.environments.map(environment => environment.trim()),
+        growthPercent: validParameters.growthPercent
+      },
+      networkSegments
+    }
+  };
+}
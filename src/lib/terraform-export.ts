@@ -0,0 +1,158 @@
+import { baseNetworkContaining, getIpVersion, leafNetworkSegments, planBaseNetworks } from './subnet-utils';
+import type { NetworkPlan } from './subnet-utils';
+import { toKebabName, uniqueIdentifiers } from './export-utils';
+
+// Turn a name into a valid Terraform resource name (e.g., "Public AZ-1" -> "public_az_1")
+export function toTerraformIdentifier(name: string, fallback = 'subnet'): string {
+  const identifier = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}_${identifier}` : identifier;
+}
+
+// Quote a string for HCL, escaping template sequences
+export function hclString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/\$\{/g, () => '$${')
+    .replace(/%\{/g, '%%{');
+  return `"${escaped}"`;
+}
+
+export type HclAttribute = [name: string, value: string];
+
+// Render attributes with their equals signs aligned, as terraform fmt does
+export function hclAttributes(attributes: HclAttribute[], indent: string): string[] {
+  const width = Math.max(...attributes.map(([name]) => name.length));
+  return attributes.map(([name, value]) => `${indent}${name.padEnd(width)} = ${value}`);
+}
+
+// Render a resource block with plain attributes followed by a tags map
+export function hclResource(type: string, name: string, attributes: HclAttribute[], tags: HclAttribute[]): string {
+  const lines = [`resource "${type}" "${name}" {`, ...hclAttributes(attributes, '  ')];
+  if (tags.length > 0) {
+    lines.push('', '  tags = {', ...hclAttributes(tags, '    '), '  }');
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Generate Terraform HCL for an AWS VPC and one aws_subnet per leaf network segment (parent segments
+// are only address space). Secondary base network ranges become CIDR block associations, which
+// subnets in them depend on. Output depends only on the plan, so it can be committed and diffed.
+export function generateAwsTerraform(plan: NetworkPlan, vpcName = 'main'): string {
+  const vpcIdentifier = toTerraformIdentifier(vpcName, 'vpc');
+  const isIpv6Only = getIpVersion(plan.baseNetwork) === 6;
+  const baseNetworks = planBaseNetworks(plan);
+  const blocks: string[] = [];
+
+  const vpcAttributes: HclAttribute[] = isIpv6Only
+    ? [['ipv6_cidr_block', hclString(plan.baseNetwork)]]
+    : [['cidr_block', hclString(plan.baseNetwork)]];
+  if (plan.baseNetworkIpv6 && !isIpv6Only) {
+    vpcAttributes.push(['ipv6_cidr_block', hclString(plan.baseNetworkIpv6)]);
+  }
+  vpcAttributes.push(['enable_dns_support', 'true'], ['enable_dns_hostnames', 'true']);
+  blocks.push(hclResource('aws_vpc', vpcIdentifier, vpcAttributes, [['Name', hclString(vpcName)]]));
+
+  const associationType = isIpv6Only ? 'aws_vpc_ipv6_cidr_block_association' : 'aws_vpc_ipv4_cidr_block_association';
+  const associations = new Map<string, string>();
+  baseNetworks.slice(1).forEach((cidr, index) => {
+    const identifier = `${vpcIdentifier}_secondary_${index + 1}`;
+    associations.set(cidr, `${associationType}.${identifier}`);
+    blocks.push(hclResource(associationType, identifier, [
+      ['vpc_id', `aws_vpc.${vpcIdentifier}.id`],
+      [isIpv6Only ? 'ipv6_cidr_block' : 'cidr_block', hclString(cidr)],
+    ], []));
+  });
+
+  const subnetSegments = leafNetworkSegments(plan.networkSegments);
+  const subnetIdentifiers = uniqueIdentifiers(subnetSegments.map(segment => segment.name), name => toTerraformIdentifier(name));
+  subnetSegments.forEach((segment, index) => {
+    const attributes: HclAttribute[] = [['vpc_id', `aws_vpc.${vpcIdentifier}.id`]];
+    if (isIpv6Only) {
+      attributes.push(['ipv6_cidr_block', hclString(segment.cidr)], ['ipv6_native', 'true'], ['assign_ipv6_address_on_creation', 'true']);
+    } else {
+      attributes.push(['cidr_block', hclString(segment.cidr)]);
+      if (segment.ipv6Cidr) {
+        attributes.push(['ipv6_cidr_block', hclString(segment.ipv6Cidr)]);
+      }
+    }
+    if (segment.availabilityZone) {
+      attributes.push(['availability_zone', hclString(segment.availabilityZone)]);
+    }
+    const association = associations.get(baseNetworkContaining(baseNetworks, segment.cidr) ?? '');
+    if (association) {
+      attributes.push(['depends_on', `[${association}]`]);
+    }
+
+    const tags: HclAttribute[] = [['Name', hclString(segment.name)]];
+    if (segment.description) {
+      tags.push(['Description', hclString(segment.description)]);
+    }
+
+    blocks.push(hclResource('aws_subnet', subnetIdentifiers[index], attributes, tags));
+  });
+
+  const header = [
+    '# Generated by IP Network Planner',
+    `# Base network: ${baseNetworks.join(', ')}${plan.baseNetworkIpv6 ? ` (IPv6: ${plan.baseNetworkIpv6})` : ''}`,
+  ].join('\n');
+
+  return `${header}\n\n${blocks.join('\n\n')}\n`;
+}
+
+// GCP subnetworks are regional: take the region as it is (us-central1, as imported subnets
+// record it) or derive it from a zone such as us-central1-a
+const gcpRegion = (zone: string | undefined): string | null => {
+  const match = zone?.match(/^([a-z]+-[a-z]+\d+)(-[a-z])?$/);
+  return match ? match[1] : null;
+};
+
+// Generate Terraform HCL for a GCP custom-mode VPC and one google_compute_subnetwork per network segment
+export function generateGcpTerraform(plan: NetworkPlan, networkName = 'main'): string {
+  const networkIdentifier = toTerraformIdentifier(networkName, 'network');
+  const blocks: string[] = [
+    [
+      'variable "region" {',
+      ...hclAttributes([['type', 'string'], ['default', hclString('us-central1')]], '  '),
+      '}',
+    ].join('\n'),
+    hclResource('google_compute_network', networkIdentifier, [
+      ['name', hclString(toKebabName(networkName, 'network'))],
+      ['auto_create_subnetworks', 'false'],
+    ], []),
+  ];
+
+  const subnetSegments = leafNetworkSegments(plan.networkSegments);
+  const names = subnetSegments.map(segment => segment.name);
+  const subnetIdentifiers = uniqueIdentifiers(names, name => toTerraformIdentifier(name));
+  const subnetNames = uniqueIdentifiers(names, name => toKebabName(name, 'subnet', 60), '-');
+
+  subnetSegments.forEach((segment, index) => {
+    const region = gcpRegion(segment.availabilityZone);
+    const attributes: HclAttribute[] = [
+      ['name', hclString(subnetNames[index])],
+      ['network', `google_compute_network.${networkIdentifier}.id`],
+      ['ip_cidr_range', hclString(segment.cidr)],
+      ['region', region ? hclString(region) : 'var.region'],
+    ];
+    if (segment.description) {
+      attributes.push(['description', hclString(segment.description)]);
+    }
+    // GCP allocates the IPv6 range of a dual-stack subnetwork itself
+    if (segment.ipv6Cidr) {
+      attributes.push(['stack_type', hclString('IPV4_IPV6')], ['ipv6_access_type', hclString('INTERNAL')]);
+    }
+
+    blocks.push(hclResource('google_compute_subnetwork', subnetIdentifiers[index], attributes, []));
+  });
+
+  return `# Generated by IP Network Planner\n# Base network: ${planBaseNetworks(plan).join(', ')}\n\n${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,186 @@
+import type { NetworkPlan } from './subnet-utils';
+import type { PresetTemplate } from './presets';
+
+// A named, read-only copy of a plan at a point in time
+export interface PlanSnapshot {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  plan: NetworkPlan;
+}
+
+// A named plan stored in the workspace
+export interface WorkspacePlan {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  plan: NetworkPlan;
+  snapshots?: PlanSnapshot[]; // Oldest first
+  allowOverlap?: boolean; // Isolated environment whose addresses may overlap other plans in the address registry
+}
+
+// A template the user saved, stored alongside the workspace plans
+export interface CustomTemplate extends PresetTemplate {
+  id: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface Workspace {
+  plans: WorkspacePlan[];
+  activePlanId: string;
+  registrySupernet?: string; // Company-wide block the address registry suggests new VPC ranges from
+  customTemplates: CustomTemplate[];
+}
+
+export const DEFAULT_PLAN: NetworkPlan = { baseNetwork: '10.0.0.0/16', networkSegments: [] };
+
+const DB_NAME = 'ip-network-planner';
+const DB_VERSION = 2;
+const PLANS_STORE = 'plans';
+const SETTINGS_STORE = 'settings';
+const TEMPLATES_STORE = 'templates';
+const ACTIVE_PLAN_SETTING = 'activePlanId';
+const LEGACY_MIGRATED_SETTING = 'legacyMigrated';
+const REGISTRY_SUPERNET_SETTING = 'registrySupernet';
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Open (and on first use create) the workspace database
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore(PLANS_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(SETTINGS_STORE);
+      }
+      // Version 2 added custom templates
+      if (event.oldVersion < 2) {
+        request.result.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+// Run a request in its own transaction, resolving once the transaction has committed
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+let planCounter = 0;
+
+// Create a workspace plan with a unique ID
+export function createWorkspacePlan(name: string, plan: NetworkPlan): WorkspacePlan {
+  const now = new Date().toISOString();
+  planCounter += 1;
+  return { id: `plan-${Date.now()}-${planCounter}`, name, createdAt: now, updatedAt: now, plan };
+}
+
+// Create a snapshot of a plan with a unique ID
+export function createPlanSnapshot(name: string, plan: NetworkPlan): PlanSnapshot {
+  planCounter += 1;
+  return { id: `snapshot-${Date.now()}-${planCounter}`, name, createdAt: new Date().toISOString(), plan: structuredClone(plan) };
+}
+
+// Create a custom template with a unique ID
+export function createCustomTemplate(template: PresetTemplate): CustomTemplate {
+  planCounter += 1;
+  return { ...structuredClone(template), id: `template-${Date.now()}-${planCounter}`, createdAt: new Date().toISOString() };
+}
+
+// Make a plan name unique within the workspace (e.g., "Production (2)")
+export function uniquePlanName(name: string, plans: WorkspacePlan[]): string {
+  const names = new Set(plans.map(plan => plan.name));
+  if (!names.has(name)) return name;
+
+  let suffix = 2;
+  while (names.has(`${name} (${suffix})`)) suffix++;
+  return `${name} (${suffix})`;
+}
+
+// Get all workspace plans, oldest first
+export async function listWorkspacePlans(): Promise<WorkspacePlan[]> {
+  const plans = await runTransaction<WorkspacePlan[]>(PLANS_STORE, 'readonly', store => store.getAll());
+  return plans.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Create or update a workspace plan
+export async function saveWorkspacePlan(plan: WorkspacePlan): Promise<void> {
+  await runTransaction(PLANS_STORE, 'readwrite', store => store.put(plan));
+}
+
+export async function deleteWorkspacePlan(id: string): Promise<void> {
+  await runTransaction(PLANS_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Get all custom templates, oldest first
+export async function listCustomTemplates(): Promise<CustomTemplate[]> {
+  const templates = await runTransaction<CustomTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveCustomTemplate(template: CustomTemplate): Promise<void> {
+  await runTransaction(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+}
+
+export async function deleteCustomTemplate(id: string): Promise<void> {
+  await runTransaction(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Remember which plan is open across sessions
+export async function saveActivePlanId(id: string): Promise<void> {
+  await runTransaction(SETTINGS_STORE, 'readwrite', store => store.put(id, ACTIVE_PLAN_SETTING));
+}
+
+// Remember the address registry's company supernet
+export async function saveRegistrySupernet(cidr: string): Promise<void> {
+  await runTransaction(SETTINGS_STORE, 'readwrite', store => store.put(cidr, REGISTRY_SUPERNET_SETTING));
+}
+
+// Load the workspace, migrating the single plan kept by earlier versions on first load.
+// The workspace always holds at least one plan.
+export async function loadWorkspace(loadLegacyPlan: () => NetworkPlan | null): Promise<Workspace> {
+  let plans = await listWorkspacePlans();
+
+  const legacyMigrated = await runTransaction(SETTINGS_STORE, 'readonly', store => store.get(LEGACY_MIGRATED_SETTING));
+  if (!legacyMigrated) {
+    const legacyPlan = loadLegacyPlan();
+    if (legacyPlan) {
+      const migratedPlan = createWorkspacePlan(uniquePlanName('My Plan', plans), legacyPlan);
+      await saveWorkspacePlan(migratedPlan);
+      await saveActivePlanId(migratedPlan.id);
+      plans = [...plans, migratedPlan];
+    }
+    await runTransaction(SETTINGS_STORE, 'readwrite', store => store.put(true, LEGACY_MIGRATED_SETTING));
+  }
+
+  if (plans.length === 0) {
+    const firstPlan = createWorkspacePlan('My Plan', DEFAULT_PLAN);
+    await saveWorkspacePlan(firstPlan);
+    plans = [firstPlan];
+  }
+
+  const savedActivePlanId = await runTransaction<string | undefined>(SETTINGS_STORE, 'readonly', store => store.get(ACTIVE_PLAN_SETTING));
+  const activePlanId = plans.some(plan => plan.id === savedActivePlanId) ? savedActivePlanId! : plans[0].id;
+  const registrySupernet = await runTransaction<string | undefined>(SETTINGS_STORE, 'readonly', store => store.get(REGISTRY_SUPERNET_SETTING));
+  const customTemplates = await listCustomTemplates();
+  return { plans, activePlanId, registrySupernet, customTemplates };
+}